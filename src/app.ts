@@ -11,6 +11,11 @@ import { authRouter } from './routes/auth.route';
 import { progressRouter } from './routes/progress.route';
 import { questionsRouter } from './routes/questions.route';
 import { titlesRouter } from './routes/titles.route';
+import { jobsRouter } from './routes/jobs.route';
+import { threadsRouter } from './routes/threads.route';
+import { promptsRouter } from './routes/prompts.route';
+import { quizzesRouter } from './routes/quizzes.route';
+import { getCircuitStates } from './utils/resilience.util';
 
 // Load environment variables
 const app = express();
@@ -51,7 +56,9 @@ app.get('/health', (req, res) => {
     success: true,
     message: 'SpoilerShield API is running',
     timestamp: new Date().toISOString(),
-    uptime: process.uptime()
+    uptime: process.uptime(),
+    // Circuit state of each AI service called since startup
+    upstreams: getCircuitStates()
   });
 });
 
@@ -61,6 +68,10 @@ app.use('/api/chapters', chaptersRouter);
 app.use('/api/progress', progressRouter);
 app.use('/api/questions', questionsRouter);
 app.use('/api/titles', titlesRouter);
+app.use('/api/jobs', jobsRouter);
+app.use('/api/threads', threadsRouter);
+app.use('/api/prompts', promptsRouter);
+app.use('/api/quizzes', quizzesRouter);
 
 // 404 handler
 app.use('*', (req, res) => {
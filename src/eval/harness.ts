@@ -0,0 +1,232 @@
+import { readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { MEMORY_SUPABASE_URL, memoryDatabase } from "./memory-postgrest";
+import { aiService } from "../services/ai.service";
+import { chunksService } from "../services/chunks.service";
+import { questionsService } from "../services/questions.service";
+import { extractiveLLMProvider } from "../providers/llm/extractive.provider";
+import { getLLMProvider, setLLMProvider } from "../providers/llm/llm.provider";
+import { memoryVectorStore } from "../providers/vector-store/memory.provider";
+import { setVectorStore } from "../providers/vector-store/vector-store.provider";
+import { getEmbeddingModel, parseEmbedding } from "../utils/embedding.util";
+import { containsFact, isAbstention, rate } from "./metrics";
+import type { Chapter, QuestionStatus, SpoilerAction } from "../types/database.type";
+
+export interface FixtureBook {
+  title: { name: string; author: string; description?: string };
+  chapters: Array<{ order: number; name: string; content: string }>;
+}
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  chapter_limit: number;
+  // Facts a correct answer states; empty when the chapters up to the limit
+  // do not answer the question and the model should abstain
+  expected_facts: string[];
+  // Facts from beyond the chapter limit the answer must not reveal
+  forbidden_facts: string[];
+  // Status the question must end in, e.g. "refused" for a prompt injection
+  // screening should catch or "answered" for one it should let through.
+  // When set, only the status decides whether the result is correct.
+  expected_status?: QuestionStatus;
+}
+
+export interface GoldenSet {
+  name: string;
+  book: string; // path to the fixture book, relative to the golden set file
+  questions: GoldenQuestion[];
+}
+
+export interface EvaluationOptions {
+  // LLM provider to answer with; "mock" answers extractively from the
+  // retrieved passages so runs stay offline and deterministic
+  provider: string;
+  model?: string;
+}
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  chapter_limit: number;
+  status: QuestionStatus | "error";
+  answer: string | null;
+  spoiler_action: SpoilerAction | null;
+  abstained: boolean;
+  correct: boolean;
+  facts_found: string[];
+  facts_missing: string[];
+  leaked_facts: string[];
+  citations: number;
+  latency_ms: number;
+  error?: string;
+}
+
+export interface EvaluationReport {
+  golden_set: string;
+  provider: string;
+  model: string;
+  embedding_model: string;
+  total: number;
+  // Correct answers to answerable questions plus abstentions on the rest
+  accuracy: number;
+  abstention_rate: number;
+  spoiler_leak_rate: number;
+  errors: number;
+  spoiler_actions: Record<SpoilerAction, number>;
+  results: QuestionResult[];
+}
+
+// Evaluation rows never leave the process
+const EVAL_USER_ID = "00000000-0000-4000-8000-000000000000";
+
+export const loadGoldenSet = (path: string): { golden: GoldenSet; book: FixtureBook } => {
+  const golden: GoldenSet = JSON.parse(readFileSync(path, "utf8"));
+  const book: FixtureBook = JSON.parse(readFileSync(resolve(dirname(path), golden.book), "utf8"));
+  return { golden, book };
+};
+
+// Seed the in-memory database with the fixture book and index its chapters
+// into a fresh in-memory vector store, the same way ingestion does
+const loadBook = async (book: FixtureBook): Promise<string> => {
+  memoryDatabase.reset();
+  const [title] = memoryDatabase.seed("titles", [{ ...book.title, coverImage: null, retrieval_settings: {} }]);
+  const chapters = memoryDatabase.seed(
+    "chapters",
+    book.chapters.map((chapter) => ({ ...chapter, title_id: title.id, embedding_status: "pending" }))
+  ) as Chapter[];
+
+  const store = memoryVectorStore();
+  setVectorStore(store);
+
+  for (const chapter of chapters) {
+    const indexResult = await chunksService.indexChapter(chapter);
+    if (!indexResult.success || !indexResult.data) {
+      throw new Error(`Failed to index fixture chapter ${chapter.order}: ${indexResult.error}`);
+    }
+    store.add(
+      indexResult.data.map((chunk) => ({
+        chunk_id: chunk.id,
+        chapter_id: chapter.id,
+        chapter_name: chapter.name,
+        chapter_order: chapter.order ?? 0,
+        chunk_index: chunk.chunk_index,
+        content: chunk.content,
+        title_id: title.id,
+        embedding: parseEmbedding(chunk.embedding),
+        embedding_model: chunk.embedding_model,
+      }))
+    );
+  }
+
+  return title.id;
+};
+
+const evaluateQuestion = async (
+  titleId: string,
+  item: GoldenQuestion,
+  options: EvaluationOptions
+): Promise<QuestionResult> => {
+  if (options.provider === "mock") {
+    setLLMProvider("mock", extractiveLLMProvider(item.question));
+  }
+
+  const created = await questionsService.createQuestion(
+    {
+      user_id: EVAL_USER_ID,
+      title_id: titleId,
+      question_text: item.question,
+      chapter_limit: item.chapter_limit,
+    },
+    "queued"
+  );
+  if (!created.success || !created.data) {
+    throw new Error(`Failed to create question ${item.id}: ${created.error}`);
+  }
+
+  const started = Date.now();
+  const base = { id: item.id, question: item.question, chapter_limit: item.chapter_limit };
+
+  try {
+    const generated = await aiService.generateAnswer(created.data.id, {
+      provider: options.provider,
+      model: options.model,
+    });
+    const answer = generated.answer;
+    const abstained = isAbstention(answer);
+    const factsFound = answer ? item.expected_facts.filter((fact) => containsFact(answer, fact)) : [];
+    const leakedFacts = answer ? item.forbidden_facts.filter((fact) => containsFact(answer, fact)) : [];
+
+    return {
+      ...base,
+      status: generated.status,
+      answer,
+      spoiler_action: generated.spoilerAction,
+      abstained,
+      correct: item.expected_status
+        ? generated.status === item.expected_status
+        : item.expected_facts.length === 0
+          ? abstained
+          : !abstained && factsFound.length === item.expected_facts.length,
+      facts_found: factsFound,
+      facts_missing: item.expected_facts.filter((fact) => !factsFound.includes(fact)),
+      leaked_facts: leakedFacts,
+      citations: generated.citations.length,
+      latency_ms: Date.now() - started,
+    };
+  } catch (error) {
+    return {
+      ...base,
+      status: "error",
+      answer: null,
+      spoiler_action: null,
+      abstained: false,
+      correct: false,
+      facts_found: [],
+      facts_missing: item.expected_facts,
+      leaked_facts: [],
+      citations: 0,
+      latency_ms: Date.now() - started,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+// Run every golden question through aiService.generateAnswer against the
+// fixture book. Needs installMemoryPostgrest() first so nothing touches a
+// real project.
+export const runEvaluation = async (
+  golden: GoldenSet,
+  book: FixtureBook,
+  options: EvaluationOptions
+): Promise<EvaluationReport> => {
+  if (process.env.SUPABASE_URL !== MEMORY_SUPABASE_URL) {
+    throw new Error("The evaluation harness only runs against the in-memory database (installMemoryPostgrest)");
+  }
+
+  const titleId = await loadBook(book);
+
+  const results: QuestionResult[] = [];
+  for (const item of golden.questions) {
+    results.push(await evaluateQuestion(titleId, item, options));
+  }
+
+  const spoilerActions: Record<SpoilerAction, number> = { none: 0, redacted: 0, regenerated: 0, blocked: 0 };
+  results.forEach((result) => {
+    if (result.spoiler_action) spoilerActions[result.spoiler_action] += 1;
+  });
+
+  return {
+    golden_set: golden.name,
+    provider: options.provider,
+    model: options.model || getLLMProvider(options.provider).defaultModel,
+    embedding_model: getEmbeddingModel().modelId,
+    total: results.length,
+    accuracy: rate(results.filter((result) => result.correct).length, results.length),
+    abstention_rate: rate(results.filter((result) => result.abstained).length, results.length),
+    spoiler_leak_rate: rate(results.filter((result) => result.leaked_facts.length > 0).length, results.length),
+    errors: results.filter((result) => result.status === "error").length,
+    spoiler_actions: spoilerActions,
+    results,
+  };
+};
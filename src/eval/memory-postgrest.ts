@@ -0,0 +1,340 @@
+import { randomUUID } from "crypto";
+
+// In-process stand-in for the PostgREST API behind supabase-js, with every
+// table held in memory, for offline evaluation runs. Supports the filters,
+// ordering, embeds and write modes this codebase uses; anything else is
+// answered with a 400 so unsupported queries fail loudly instead of
+// returning wrong rows.
+
+type Row = Record<string, any>;
+type RpcHandler = (args: Record<string, any>) => unknown;
+
+export interface MemoryDatabase {
+  // Insert rows as-is, filling in id and timestamps when missing
+  seed(table: string, rows: Row[]): Row[];
+  rows(table: string): Row[];
+  registerRpc(name: string, handler: RpcHandler): void;
+  reset(): void;
+}
+
+const tables = new Map<string, Row[]>();
+const rpcs = new Map<string, RpcHandler>();
+
+const tableRows = (table: string): Row[] => {
+  let rows = tables.get(table);
+  if (!rows) {
+    rows = [];
+    tables.set(table, rows);
+  }
+  return rows;
+};
+
+const withDefaults = (row: Row): Row => {
+  const now = new Date().toISOString();
+  return { id: randomUUID(), created_at: now, updated_at: now, ...row };
+};
+
+export const memoryDatabase: MemoryDatabase = {
+  seed: (table, rows) => {
+    const seeded = rows.map(withDefaults);
+    tableRows(table).push(...seeded);
+    return seeded;
+  },
+  rows: (table) => tableRows(table),
+  registerRpc: (name, handler) => {
+    rpcs.set(name, handler);
+  },
+  reset: () => {
+    tables.clear();
+  },
+};
+
+class QueryError extends Error {
+  constructor(message: string, readonly status: number = 400, readonly details: string | null = null) {
+    super(message);
+  }
+}
+
+// Split on commas that are not inside parentheses or double quotes
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === "(") depth += 1;
+    if (!quoted && char === ")") depth -= 1;
+    if (!quoted && depth === 0 && char === ",") {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+const unquote = (value: string) => (value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value);
+
+const compare = (a: any, b: string): number => {
+  if (typeof a === "number" || (a !== null && a !== "" && !isNaN(Number(a)) && !isNaN(Number(b)))) {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(b);
+};
+
+const FILTER_OPERATORS = ["eq", "neq", "gt", "gte", "lt", "lte", "in", "is"];
+
+// One PostgREST filter such as "eq.5", "in.(a,b)" or "is.null"
+const matches = (value: any, filter: string): boolean => {
+  const negated = filter.startsWith("not.");
+  const expression = negated ? filter.slice(4) : filter;
+  const dot = expression.indexOf(".");
+  const operator = expression.slice(0, dot);
+  const operand = expression.slice(dot + 1);
+
+  let result: boolean;
+  switch (operator) {
+    case "eq":
+      result = value !== null && value !== undefined && String(value) === operand;
+      break;
+    case "neq":
+      result = value !== null && value !== undefined && String(value) !== operand;
+      break;
+    case "gt":
+      result = value !== null && value !== undefined && compare(value, operand) > 0;
+      break;
+    case "gte":
+      result = value !== null && value !== undefined && compare(value, operand) >= 0;
+      break;
+    case "lt":
+      result = value !== null && value !== undefined && compare(value, operand) < 0;
+      break;
+    case "lte":
+      result = value !== null && value !== undefined && compare(value, operand) <= 0;
+      break;
+    case "in":
+      result = splitTopLevel(operand.replace(/^\(|\)$/g, "")).map(unquote).includes(String(value));
+      break;
+    case "is":
+      result = operand === "null" ? value === null || value === undefined : String(value) === operand;
+      break;
+    default:
+      throw new QueryError(`Unsupported filter operator: ${operator}`);
+  }
+  return negated ? !result : result;
+};
+
+// "or=(spoiled.eq.true,rating.eq.-1)"
+const matchesAny = (row: Row, expression: string): boolean =>
+  splitTopLevel(expression.replace(/^\(|\)$/g, "")).some((condition) => {
+    const dot = condition.indexOf(".");
+    return matches(row[condition.slice(0, dot)], condition.slice(dot + 1));
+  });
+
+const RESERVED_PARAMS = new Set(["select", "order", "limit", "offset", "on_conflict", "columns", "or"]);
+
+const applyFilters = (rows: Row[], params: URLSearchParams): Row[] => {
+  let result = rows;
+  params.forEach((value, key) => {
+    if (key === "or") {
+      result = result.filter((row) => matchesAny(row, value));
+      return;
+    }
+    // A column called "order" shares its name with the ordering parameter
+    const isFilter = !RESERVED_PARAMS.has(key) ||
+      (key === "order" && FILTER_OPERATORS.some((op) => value.startsWith(`${op}.`) || value.startsWith(`not.${op}.`)));
+    if (isFilter) {
+      result = result.filter((row) => matches(row[key], value));
+    }
+  });
+  return result;
+};
+
+const applyOrder = (rows: Row[], params: URLSearchParams): Row[] => {
+  const ordering = params
+    .getAll("order")
+    .filter((value) => !FILTER_OPERATORS.some((op) => value.startsWith(`${op}.`)))
+    .flatMap((value) => value.split(","))
+    .map((term) => {
+      const [column, direction = "asc"] = term.split(".");
+      return { column, descending: direction === "desc" };
+    });
+
+  if (ordering.length === 0) return rows;
+  return [...rows].sort((a, b) => {
+    for (const { column, descending } of ordering) {
+      if (a[column] === b[column]) continue;
+      if (a[column] === null || a[column] === undefined) return 1;
+      if (b[column] === null || b[column] === undefined) return -1;
+      const difference = compare(a[column], String(b[column]));
+      return descending ? -difference : difference;
+    }
+    return 0;
+  });
+};
+
+const singular = (table: string) => table.replace(/s$/, "");
+
+// "*, titles(id, name)" picks columns and embeds related rows, following
+// either this row's <relation>_id or the related rows' <table>_id
+const project = (row: Row, table: string, select: string | null): Row => {
+  if (!select) return { ...row };
+
+  const projected: Row = {};
+  splitTopLevel(select).forEach((item) => {
+    const embed = item.match(/^(?:(\w+):)?(\w+)(?:!\w+)?\((.*)\)$/);
+    if (!embed) {
+      if (item === "*") Object.assign(projected, row);
+      else projected[item] = row[item];
+      return;
+    }
+
+    const [, alias, relation, columns] = embed;
+    const related = tableRows(relation);
+    const foreignKey = `${singular(relation)}_id`;
+    const value = foreignKey in row
+      ? related.find((candidate) => candidate.id === row[foreignKey])
+      : related.filter((candidate) => candidate[`${singular(table)}_id`] === row.id);
+
+    projected[alias || relation] = Array.isArray(value)
+      ? value.map((candidate) => project(candidate, relation, columns))
+      : value
+        ? project(value, relation, columns)
+        : null;
+  });
+  return projected;
+};
+
+const readRows = (table: string, params: URLSearchParams): Row[] => {
+  let rows = applyOrder(applyFilters(tableRows(table), params), params);
+  const offset = parseInt(params.get("offset") || "0");
+  const limit = params.get("limit");
+  rows = rows.slice(offset, limit ? offset + parseInt(limit) : undefined);
+  return rows;
+};
+
+const upsertRows = (table: string, incoming: Row[], conflictColumns: string[]): Row[] => {
+  const rows = tableRows(table);
+  return incoming.map((values) => {
+    const existing = rows.find((row) => conflictColumns.every((column) => row[column] === values[column]));
+    if (existing) {
+      Object.assign(existing, values);
+      return existing;
+    }
+    const row = withDefaults(values);
+    rows.push(row);
+    return row;
+  });
+};
+
+const handleTable = (method: string, table: string, params: URLSearchParams, prefer: string, body: any): Row[] => {
+
+  switch (method) {
+    case "GET":
+    case "HEAD":
+      return readRows(table, params);
+    case "POST": {
+      const incoming: Row[] = Array.isArray(body) ? body : [body];
+      if (prefer.includes("resolution=merge-duplicates")) {
+        return upsertRows(table, incoming, (params.get("on_conflict") || "id").split(","));
+      }
+      const inserted = incoming.map(withDefaults);
+      tableRows(table).push(...inserted);
+      return inserted;
+    }
+    case "PATCH": {
+      const updated = applyFilters(tableRows(table), params);
+      updated.forEach((row) => Object.assign(row, body));
+      return applyOrder(updated, params);
+    }
+    case "DELETE": {
+      const deleted = new Set(applyFilters(tableRows(table), params));
+      tables.set(table, tableRows(table).filter((row) => !deleted.has(row)));
+      return [...deleted];
+    }
+    default:
+      throw new QueryError(`Unsupported method: ${method}`, 405);
+  }
+};
+
+const jsonResponse = (status: number, body: unknown, extraHeaders: Record<string, string> = {}): Response =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...extraHeaders },
+  });
+
+// fetch() replacement handed to supabase-js; only /rest/v1 is served
+export const memoryPostgrestFetch = async (input: any, init: any = {}): Promise<Response> => {
+  const url = new URL(typeof input === "string" ? input : input.url);
+  const method = (init.method || "GET").toUpperCase();
+  const headers = new Headers(init.headers);
+  const prefer = headers.get("prefer") || "";
+  const body = init.body ? JSON.parse(init.body) : undefined;
+  const path = url.pathname.replace(/^\/rest\/v1\//, "");
+
+  try {
+    if (path.startsWith("rpc/")) {
+      const handler = rpcs.get(path.slice(4));
+      if (!handler) {
+        throw new QueryError(`Could not find the function public.${path.slice(4)}`, 404);
+      }
+      return jsonResponse(200, (await handler(body || {})) ?? null);
+    }
+
+    const rows = handleTable(method, path, url.searchParams, prefer, body);
+    const representation = method === "GET" || method === "HEAD" || prefer.includes("return=representation");
+    const result = rows.map((row) => project(row, path, url.searchParams.get("select")));
+    const rangeHeader = { "Content-Range": `0-${Math.max(0, result.length - 1)}/${result.length}` };
+
+    if (method === "HEAD" || !representation) {
+      return new Response(null, { status: method === "POST" ? 201 : 204, headers: rangeHeader });
+    }
+
+    if ((headers.get("accept") || "").includes("application/vnd.pgrst.object+json")) {
+      if (result.length !== 1) {
+        throw new QueryError(
+          "JSON object requested, multiple (or no) rows returned",
+          406,
+          `The result contains ${result.length} rows`
+        );
+      }
+      return jsonResponse(200, result[0], rangeHeader);
+    }
+
+    return jsonResponse(method === "POST" ? 201 : 200, result, rangeHeader);
+  } catch (error) {
+    if (error instanceof QueryError) {
+      return jsonResponse(error.status, {
+        code: error.status === 406 ? "PGRST116" : null,
+        details: error.details,
+        hint: null,
+        message: error.message,
+      });
+    }
+    throw error;
+  }
+};
+
+// Supabase URL the fake answers on; requests to any other host still go
+// out through the real fetch, e.g. to a hosted LLM provider
+export const MEMORY_SUPABASE_URL = "http://memory.invalid";
+
+// Point the app's Supabase clients at the fake. supabase-js picks up the
+// global fetch when a client is created, so this must run before
+// src/lib/supabase is first imported.
+export const installMemoryPostgrest = (): void => {
+  const realFetch = globalThis.fetch;
+  const memoryHost = new URL(MEMORY_SUPABASE_URL).host;
+
+  globalThis.fetch = ((input: any, init?: any) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    return new URL(url).host === memoryHost ? memoryPostgrestFetch(input, init) : realFetch(input, init);
+  }) as typeof fetch;
+
+  process.env.SUPABASE_URL = MEMORY_SUPABASE_URL;
+  process.env.SUPABASE_SERVICE_ROLE_KEY = "memory";
+  process.env.SUPABASE_ANON_KEY = "memory";
+};
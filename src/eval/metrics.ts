@@ -0,0 +1,22 @@
+// Phrases a model uses to say the chapters do not answer the question. The
+// answer template asks for the first one verbatim.
+const ABSTENTION_PATTERNS = [
+  /could not find the answer/i,
+  /(isn't|is not|wasn't|was not|not) (mentioned|found|covered|stated) in the (provided )?(chapters|passages|text)/i,
+  /the (provided )?(chapters|passages) do not (say|mention|reveal)/i,
+];
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9']+/g, " ").replace(/\s+/g, " ").trim();
+
+// A fact counts as stated when its words appear in order in the answer,
+// ignoring case and punctuation
+export const containsFact = (answer: string, fact: string): boolean =>
+  ` ${normalize(answer)} `.includes(` ${normalize(fact)} `);
+
+// Blocked answers (null) count as abstentions: the reader got no answer
+export const isAbstention = (answer: string | null): boolean =>
+  answer === null || ABSTENTION_PATTERNS.some((pattern) => pattern.test(answer));
+
+export const rate = (count: number, total: number): number =>
+  total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
@@ -0,0 +1,77 @@
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { installMemoryPostgrest } from "./memory-postgrest";
+
+// Offline evaluation of the question-answering pipeline.
+//
+//   npm run eval -- [--golden path] [--provider mock|groq|local] [--model name]
+//                   [--out report.json] [--min-accuracy 0.8] [--max-leak-rate 0]
+//
+// Chapters and questions live in an in-memory database and vector store and
+// are embedded with the local embedding backend, so only a non-mock
+// provider needs the network. Exits non-zero when a threshold is missed.
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+// Must be set before any module reads them
+installMemoryPostgrest();
+process.env.VECTOR_STORE = "memory";
+process.env.ANSWER_CACHE = "off";
+process.env.EMBEDDING_PROVIDER = process.env.EVAL_EMBEDDING_PROVIDER || "local";
+
+const main = async () => {
+  const { loadGoldenSet, runEvaluation } = await import("./harness");
+
+  const goldenPath = option("golden") || join(__dirname, "fixtures", "gull-rock.golden.json");
+  const provider = option("provider") || "mock";
+  const minAccuracy = option("min-accuracy");
+  const maxLeakRate = option("max-leak-rate");
+
+  const { golden, book } = loadGoldenSet(goldenPath);
+  const report = await runEvaluation(golden, book, { provider, model: option("model") });
+
+  console.log(`\n📊 Evaluation of ${report.golden_set} with ${report.provider} (${report.model}), embeddings ${report.embedding_model}`);
+  console.table(
+    report.results.map((result) => ({
+      id: result.id,
+      limit: result.chapter_limit,
+      status: result.status,
+      correct: result.correct,
+      abstained: result.abstained,
+      leaked: result.leaked_facts.join(", "),
+      missing: result.facts_missing.join(", "),
+    }))
+  );
+  console.log(`Accuracy:         ${report.accuracy}`);
+  console.log(`Abstention rate:  ${report.abstention_rate}`);
+  console.log(`Spoiler-leak rate: ${report.spoiler_leak_rate}`);
+  console.log(`Errors:           ${report.errors}`);
+  console.log(`Spoiler actions:  ${JSON.stringify(report.spoiler_actions)}`);
+
+  const out = option("out");
+  if (out) {
+    writeFileSync(out, JSON.stringify(report, null, 2));
+    console.log(`Report written to ${out}`);
+  }
+
+  const failures: string[] = [];
+  if (minAccuracy !== undefined && report.accuracy < parseFloat(minAccuracy)) {
+    failures.push(`accuracy ${report.accuracy} is below ${minAccuracy}`);
+  }
+  if (maxLeakRate !== undefined && report.spoiler_leak_rate > parseFloat(maxLeakRate)) {
+    failures.push(`spoiler-leak rate ${report.spoiler_leak_rate} is above ${maxLeakRate}`);
+  }
+  if (failures.length > 0) {
+    console.error(`❌ ${failures.join("; ")}`);
+    process.exit(1);
+  }
+};
+
+main().catch((error) => {
+  console.error("❌ Evaluation failed:", error);
+  process.exit(1);
+});
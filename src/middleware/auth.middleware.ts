@@ -48,6 +48,25 @@ export const authenticateUser = async (
 };
 
 
+// Admins are users whose Supabase app_metadata carries role "admin"
+export const isAdmin = (user: any): boolean => user?.app_metadata?.role === 'admin';
+
+// Admin-only middleware, must run after authenticateUser
+export const requireAdmin = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!isAdmin(req.user)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin access required'
+    });
+  }
+
+  return next();
+};
+
 // Optional auth middleware (for endpoints that work with or without auth)
 export const optionalAuth = async (
   req: AuthenticatedRequest,
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import { isAdmin } from './auth.middleware';
+import { usageService, type UsageSummary } from '../services/usage.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: any;
+  // Usage when the request was let through, for handlers that make several
+  // AI calls to check against; unset for admins and when it couldn't be read
+  usage?: UsageSummary;
+}
+
+// Rejects AI requests once the user's plan quota is used up, must run after
+// authenticateUser. Admins are metered but not limited. If usage can't be
+// read the request goes ahead; the per-IP rate limit still applies.
+export const requireQuota = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (isAdmin(req.user)) {
+      return next();
+    }
+
+    const result = await usageService.getSummary(req.user);
+    if (!result.success || !result.data) {
+      console.error('Quota check skipped:', result.error);
+      return next();
+    }
+
+    const { exceeded, plan } = result.data;
+    if (exceeded) {
+      const window = result.data[exceeded.window];
+      const limit = exceeded.limit === 'requests' ? window.request_limit : window.token_limit;
+      const retryAfter = Math.max(1, Math.ceil((Date.parse(exceeded.resets_at) - Date.now()) / 1000));
+
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        success: false,
+        error: `${exceeded.window === 'daily' ? 'Daily' : 'Monthly'} ${exceeded.limit === 'requests' ? 'request' : 'token'} quota of ${limit} for the ${plan} plan is used up; it resets at ${exceeded.resets_at}`,
+        resets_at: exceeded.resets_at,
+        usage: result.data,
+      });
+    }
+
+    req.usage = result.data;
+    return next();
+  } catch (error) {
+    console.error('Quota middleware error:', error);
+    return next();
+  }
+};
@@ -0,0 +1,77 @@
+import { huggingFaceEmbeddingProvider } from "./huggingface.provider";
+import { localEmbeddingProvider } from "./local.provider";
+
+export interface EmbeddingProvider {
+  // Identifier stored next to every vector this provider produces
+  readonly modelId: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = "huggingface" | "local";
+
+let activeProvider: EmbeddingProvider | null = null;
+const modelProviders = new Map<string, EmbeddingProvider>();
+
+export const createEmbeddingProvider = (name: string): EmbeddingProvider => {
+  switch (name) {
+    case "huggingface":
+      return huggingFaceEmbeddingProvider({
+        model: process.env.HF_EMBEDDING_MODEL || "BAAI/bge-large-en-v1.5",
+        dimension: parseInt(process.env.HF_EMBEDDING_DIMENSION || "1024"),
+        apiToken: process.env.HUGGINGFACE_API_TOKEN!,
+      });
+    case "local":
+      return localEmbeddingProvider({
+        dimension: parseInt(process.env.LOCAL_EMBEDDING_DIMENSION || "512"),
+      });
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+};
+
+// Provider for a stored model id such as "huggingface/BAAI/bge-large-en-v1.5"
+// or "local/hashing-v1-512"
+export const createEmbeddingProviderForModel = (modelId: string, dimension: number): EmbeddingProvider => {
+  const provider = modelId.startsWith("huggingface/")
+    ? huggingFaceEmbeddingProvider({
+        model: modelId.slice("huggingface/".length),
+        dimension,
+        apiToken: process.env.HUGGINGFACE_API_TOKEN!,
+      })
+    : localEmbeddingProvider({ dimension });
+
+  if (provider.modelId !== modelId) {
+    throw new Error(`Unknown embedding model: ${modelId} (${dimension} dimensions)`);
+  }
+  return provider;
+};
+
+// Provider selected by EMBEDDING_PROVIDER, created on first use
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!activeProvider) {
+    activeProvider = createEmbeddingProvider(process.env.EMBEDDING_PROVIDER || "huggingface");
+  }
+  return activeProvider;
+};
+
+// Provider for a model a title's vectors were made with, so questions are
+// embedded the same way even after the configured provider changes
+export const getEmbeddingProviderForModel = (modelId: string, dimension: number): EmbeddingProvider => {
+  const active = getEmbeddingProvider();
+  if (active.modelId === modelId) {
+    return active;
+  }
+
+  let provider = modelProviders.get(modelId);
+  if (!provider) {
+    provider = createEmbeddingProviderForModel(modelId, dimension);
+    modelProviders.set(modelId, provider);
+  }
+  return provider;
+};
+
+// Swap the active provider, e.g. to run against the local backend in tests
+export const setEmbeddingProvider = (provider: EmbeddingProvider): void => {
+  activeProvider = provider;
+};
@@ -0,0 +1,61 @@
+import axios from "axios";
+import { resilientCall, UpstreamError } from "../../utils/resilience.util";
+import type { EmbeddingProvider } from "./embedding.provider";
+
+interface HuggingFaceOptions {
+  model: string;
+  dimension: number;
+  apiToken: string;
+}
+
+export const huggingFaceEmbeddingProvider = ({
+  model,
+  dimension,
+  apiToken,
+}: HuggingFaceOptions): EmbeddingProvider => ({
+  modelId: `huggingface/${model}`,
+  dimension,
+
+  embed: async (texts: string[]): Promise<number[][]> => {
+    try {
+      // wait_for_model can hold the request open while a cold model loads
+      const response = await resilientCall(
+        "huggingface",
+        (signal) =>
+          axios.post(
+            `https://api-inference.huggingface.co/models/${model}`,
+            {
+              inputs: texts,
+              options: { wait_for_model: true },
+            },
+            {
+              headers: {
+                Authorization: `Bearer ${apiToken}`,
+                "Content-Type": "application/json",
+              },
+              signal,
+            }
+          ),
+        { timeoutMs: parseInt(process.env.HF_TIMEOUT_MS || "60000") }
+      );
+
+      const embeddings = response.data; // Should be one array of numbers per input
+
+      if (
+        !Array.isArray(embeddings) ||
+        embeddings.length !== texts.length ||
+        !embeddings.every((embedding) => Array.isArray(embedding))
+      ) {
+        console.error("⚠️ Unexpected Hugging Face embedding response:", response.data);
+        throw new Error("Invalid embedding response from Hugging Face");
+      }
+
+      return embeddings;
+    } catch (error: any) {
+      console.error("❌ Hugging Face embedding error:", error.message);
+      // Keep the upstream details so callers can tell an outage from a bad input
+      if (error instanceof UpstreamError) throw error;
+      throw new Error("Failed to generate embedding using Hugging Face");
+    }
+  },
+});
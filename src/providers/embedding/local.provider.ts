@@ -0,0 +1,50 @@
+import type { EmbeddingProvider } from "./embedding.provider";
+
+interface LocalOptions {
+  dimension: number;
+}
+
+// FNV-1a, so the same token always lands in the same bucket
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[a-z0-9']+/g) || [];
+
+// Offline, deterministic embedding: a signed hashing vectorizer over
+// unigrams and bigrams with sublinear term frequency, L2-normalised.
+// Not semantically smart, but stable enough for development and tests.
+export const localEmbeddingProvider = ({ dimension }: LocalOptions): EmbeddingProvider => {
+  const embedOne = (text: string): number[] => {
+    const tokens = tokenize(text);
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+    ];
+
+    const counts = new Map<string, number>();
+    features.forEach((feature) => counts.set(feature, (counts.get(feature) || 0) + 1));
+
+    const vector = new Array<number>(dimension).fill(0);
+    counts.forEach((count, feature) => {
+      const hash = hashToken(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % dimension] += sign * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  };
+
+  return {
+    modelId: `local/hashing-v1-${dimension}`,
+    dimension,
+    embed: async (texts: string[]) => texts.map(embedOne),
+  };
+};
@@ -0,0 +1,74 @@
+import { tokenizeForSearch } from "../../utils/bm25.util";
+import type { ChatCompletionRequest, ChatCompletionResult, LLMProvider } from "./llm.provider";
+
+export interface ExtractiveOptions {
+  // Share of the question's words the best sentence must contain
+  minOverlap?: number;
+  abstention?: string;
+}
+
+const DEFAULT_ABSTENTION = "I could not find the answer in the provided chapters.";
+
+// Numbered passages as formatted by the context builder: "[3] text", each
+// running until the next passage, chapter heading or prompt section
+const parsePassages = (prompt: string): Array<{ marker: number; text: string }> => {
+  const passages: Array<{ marker: number; text: string }> = [];
+  const marker = /^\[(\d+)\] /gm;
+  const starts: Array<{ marker: number; index: number; textStart: number }> = [];
+  let match: RegExpExecArray | null;
+  while ((match = marker.exec(prompt)) !== null) {
+    starts.push({ marker: parseInt(match[1]), index: match.index, textStart: match.index + match[0].length });
+  }
+
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : prompt.length;
+    const text = prompt.slice(start.textStart, end).split(/\n(?:###|Chapter \d+:)/)[0];
+    passages.push({ marker: start.marker, text });
+  });
+  return passages;
+};
+
+// Deterministic stand-in for a model in offline evaluation runs: answers
+// with the passage sentence sharing the most words with the question and
+// cites its passage, or abstains when no sentence overlaps enough. Answers
+// therefore get better or worse only with retrieval and context building.
+export const extractiveLLMProvider = (question: string, options: ExtractiveOptions = {}): LLMProvider => {
+  const minOverlap = options.minOverlap ?? 0.5;
+  const abstention = options.abstention ?? DEFAULT_ABSTENTION;
+  const questionTerms = new Set(tokenizeForSearch(question));
+
+  const provider: LLMProvider = {
+    name: "extractive",
+    defaultModel: "extractive-mock",
+
+    complete: async (request: ChatCompletionRequest): Promise<ChatCompletionResult> => {
+      const prompt =
+        [...request.messages].reverse().find((message) => message.role === "user")?.content || "";
+
+      let best = { sentence: "", marker: 0, overlap: 0 };
+      for (const { marker, text } of parsePassages(prompt)) {
+        for (const sentence of text.match(/[^.!?\n]+[.!?]*/g) || []) {
+          const terms = new Set(tokenizeForSearch(sentence));
+          const shared = [...questionTerms].filter((term) => terms.has(term)).length;
+          const overlap = questionTerms.size > 0 ? shared / questionTerms.size : 0;
+          if (overlap > best.overlap) {
+            best = { sentence: sentence.trim(), marker, overlap };
+          }
+        }
+      }
+
+      return {
+        content: best.sentence && best.overlap >= minOverlap ? `${best.sentence} [${best.marker}]` : abstention,
+        model: request.model || provider.defaultModel,
+      };
+    },
+
+    stream: async (request, onToken) => {
+      const result = await provider.complete(request);
+      (result.content.match(/\S+\s*/g) || []).forEach((token) => onToken(token));
+      return result;
+    },
+  };
+
+  return provider;
+};
@@ -0,0 +1,82 @@
+import { openAICompatibleProvider } from "./openai-compatible.provider";
+import { mockLLMProvider } from "./mock.provider";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  model?: string; // Falls back to the provider's default model
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ChatCompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  usage?: ChatCompletionUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  // Calls onToken with each piece of text as it arrives and resolves with
+  // the full completion once the stream ends
+  stream(
+    request: ChatCompletionRequest,
+    onToken: (token: string) => void
+  ): Promise<ChatCompletionResult>;
+}
+
+export const LLM_PROVIDER_NAMES = ["groq", "local", "mock"] as const;
+export type LLMProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+const providers = new Map<string, LLMProvider>();
+
+export const createLLMProvider = (name: string): LLMProvider => {
+  switch (name) {
+    case "groq":
+      return openAICompatibleProvider({
+        name,
+        baseURL: "https://api.groq.com/openai/v1",
+        apiKey: process.env.GROQ_API_KEY!,
+        defaultModel: process.env.GROQ_MODEL || "meta-llama/llama-4-scout-17b-16e-instruct",
+      });
+    case "local":
+      // Any OpenAI-compatible server, e.g. Ollama, llama.cpp or vLLM
+      return openAICompatibleProvider({
+        name,
+        baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+        apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+        defaultModel: process.env.LOCAL_LLM_MODEL || "llama3.1",
+      });
+    case "mock":
+      return mockLLMProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+};
+
+// Provider by name, or the one selected by LLM_PROVIDER. Instances are cached.
+export const getLLMProvider = (name: string = process.env.LLM_PROVIDER || "groq"): LLMProvider => {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createLLMProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+};
+
+// Replace a named provider, e.g. with a scripted mock in tests
+export const setLLMProvider = (name: string, provider: LLMProvider): void => {
+  providers.set(name, provider);
+};
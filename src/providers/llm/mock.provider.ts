@@ -0,0 +1,70 @@
+import { countTokens } from "../../utils/tokens.util";
+import type { ChatCompletionRequest, ChatCompletionResult, LLMProvider } from "./llm.provider";
+
+export interface MockRule {
+  // Matched against the last user message
+  match: string | RegExp;
+  response: string;
+}
+
+export interface MockLLMOptions {
+  // Rules are tried in order; plain strings are replayed one per call
+  script?: Array<string | MockRule>;
+  fallback?: string;
+}
+
+export interface MockLLMProvider extends LLMProvider {
+  readonly calls: ChatCompletionRequest[];
+}
+
+const DEFAULT_MOCK_RESPONSE = "This is a mock answer.";
+
+export const mockLLMProvider = (options: MockLLMOptions = {}): MockLLMProvider => {
+  const queue = (options.script || []).filter((entry): entry is string => typeof entry === "string");
+  const rules = (options.script || []).filter((entry): entry is MockRule => typeof entry !== "string");
+  const calls: ChatCompletionRequest[] = [];
+
+  const provider: MockLLMProvider = {
+    name: "mock",
+    defaultModel: "mock-model",
+    calls,
+
+    complete: async (request: ChatCompletionRequest): Promise<ChatCompletionResult> => {
+      calls.push(request);
+
+      const lastUserMessage =
+        [...request.messages].reverse().find((message) => message.role === "user")?.content || "";
+      const rule = rules.find(({ match }) =>
+        typeof match === "string" ? lastUserMessage.includes(match) : match.test(lastUserMessage)
+      );
+      const content = rule?.response ?? queue.shift() ?? options.fallback ?? DEFAULT_MOCK_RESPONSE;
+
+      // Counted like the context budgeter counts them, so the two agree
+      const model = request.model || "mock-model";
+      const promptTokens = request.messages.reduce((sum, message) => sum + countTokens(message.content, model), 0);
+      const completionTokens = countTokens(content, model);
+
+      return {
+        content,
+        model,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+      };
+    },
+
+    // Replays the scripted response word by word
+    stream: async (
+      request: ChatCompletionRequest,
+      onToken: (token: string) => void
+    ): Promise<ChatCompletionResult> => {
+      const result = await provider.complete(request);
+      (result.content.match(/\S+\s*/g) || []).forEach((token) => onToken(token));
+      return result;
+    },
+  };
+
+  return provider;
+};
@@ -0,0 +1,97 @@
+import { OpenAI } from "openai";
+import { resilientCall, resilientStream } from "../../utils/resilience.util";
+import type { ChatCompletionRequest, ChatCompletionResult, LLMProvider } from "./llm.provider";
+
+interface OpenAICompatibleOptions {
+  name: string;
+  baseURL: string;
+  apiKey: string;
+  defaultModel: string;
+}
+
+export const openAICompatibleProvider = ({
+  name,
+  baseURL,
+  apiKey,
+  defaultModel,
+}: OpenAICompatibleOptions): LLMProvider => {
+  // Retries and timeouts are handled by resilientCall, per upstream
+  const client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+
+  return {
+    name,
+    defaultModel,
+
+    complete: async (request: ChatCompletionRequest): Promise<ChatCompletionResult> => {
+      const model = request.model || defaultModel;
+      const response = await resilientCall(name, (signal) =>
+        client.chat.completions.create(
+          {
+            model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+          },
+          { signal }
+        )
+      );
+
+      return {
+        content: response.choices[0]?.message?.content || "",
+        model: response.model || model,
+        usage: response.usage && {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+        },
+      };
+    },
+
+    stream: async (
+      request: ChatCompletionRequest,
+      onToken: (token: string) => void
+    ): Promise<ChatCompletionResult> => {
+      const model = request.model || defaultModel;
+      // Only opening the stream is retried; tokens already sent can't be unsent
+      const stream = resilientStream(name, (signal) =>
+        client.chat.completions.create(
+          {
+            model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: true,
+            stream_options: { include_usage: true },
+          },
+          { signal }
+        )
+      );
+
+      let content = "";
+      let result: ChatCompletionResult = { content, model };
+
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+
+        // The final chunk carries usage for the whole completion
+        result = {
+          content,
+          model: chunk.model || model,
+          usage: chunk.usage
+            ? {
+                promptTokens: chunk.usage.prompt_tokens,
+                completionTokens: chunk.usage.completion_tokens,
+                totalTokens: chunk.usage.total_tokens,
+              }
+            : result.usage,
+        };
+      }
+
+      return { ...result, content };
+    },
+  };
+};
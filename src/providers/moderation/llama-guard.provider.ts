@@ -0,0 +1,58 @@
+import { getLLMProvider, type ChatCompletionRequest } from "../llm/llm.provider";
+import type { ModerationProvider } from "./moderation.provider";
+
+interface LlamaGuardOptions {
+  llmProvider: string;
+  model: string;
+}
+
+// MLCommons hazard taxonomy used by Llama Guard 3 and 4
+const HAZARD_CATEGORIES: Record<string, string> = {
+  S1: "violent_crimes",
+  S2: "non_violent_crimes",
+  S3: "sex_related_crimes",
+  S4: "child_sexual_exploitation",
+  S5: "defamation",
+  S6: "specialized_advice",
+  S7: "privacy",
+  S8: "intellectual_property",
+  S9: "indiscriminate_weapons",
+  S10: "hate",
+  S11: "suicide_and_self_harm",
+  S12: "sexual_content",
+  S13: "elections",
+  S14: "code_interpreter_abuse",
+};
+
+// Llama Guard replies "safe", or "unsafe" followed by a line of category
+// codes such as "S1,S10"
+export const llamaGuardModerationProvider = ({ llmProvider, model }: LlamaGuardOptions): ModerationProvider => ({
+  name: "llama_guard",
+
+  classify: async (text: string) => {
+    const llm = getLLMProvider(llmProvider);
+    const request: ChatCompletionRequest = {
+      model,
+      messages: [{ role: "user", content: text }],
+      temperature: 0,
+      maxTokens: 20,
+    };
+    const response = await llm.complete(request);
+    const completion = { provider: llm.name, request, result: response };
+
+    const [verdict, codes = ""] = response.content.trim().toLowerCase().split(/\s*\n\s*/);
+    if (verdict !== "unsafe") {
+      return { flagged: false, categories: [], completion };
+    }
+
+    return {
+      flagged: true,
+      completion,
+      categories: codes
+        .toUpperCase()
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map((code) => HAZARD_CATEGORIES[code] || code),
+    };
+  },
+});
@@ -0,0 +1,50 @@
+import { noneModerationProvider } from "./none.provider";
+import { llamaGuardModerationProvider } from "./llama-guard.provider";
+import type { ChatCompletionRequest, ChatCompletionResult } from "../llm/llm.provider";
+
+export interface ModerationResult {
+  flagged: boolean;
+  // Names of the hazard categories the text falls under, empty if none
+  categories: string[];
+  // The LLM call the classifier made, if any, so it can be metered
+  completion?: { provider: string; request: ChatCompletionRequest; result: ChatCompletionResult };
+}
+
+// Content-safety classifier run on every question before it reaches the
+// answering model
+export interface ModerationProvider {
+  readonly name: string;
+  classify(text: string): Promise<ModerationResult>;
+}
+
+export const MODERATION_PROVIDER_NAMES = ["none", "llama_guard"] as const;
+
+let activeProvider: ModerationProvider | null = null;
+
+export const createModerationProvider = (name: string): ModerationProvider => {
+  switch (name) {
+    case "none":
+      return noneModerationProvider();
+    case "llama_guard":
+      // Served through one of the LLM providers, Groq by default
+      return llamaGuardModerationProvider({
+        llmProvider: process.env.MODERATION_LLM_PROVIDER || "groq",
+        model: process.env.MODERATION_MODEL || "meta-llama/llama-guard-4-12b",
+      });
+    default:
+      throw new Error(`Unknown moderation provider: ${name}`);
+  }
+};
+
+// Provider selected by MODERATION_PROVIDER, created on first use
+export const getModerationProvider = (): ModerationProvider => {
+  if (!activeProvider) {
+    activeProvider = createModerationProvider(process.env.MODERATION_PROVIDER || "none");
+  }
+  return activeProvider;
+};
+
+// Swap the active provider, e.g. with a scripted classifier in tests
+export const setModerationProvider = (provider: ModerationProvider): void => {
+  activeProvider = provider;
+};
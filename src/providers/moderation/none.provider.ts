@@ -0,0 +1,7 @@
+import type { ModerationProvider } from "./moderation.provider";
+
+// Lets every question through; length and prompt-injection checks still run
+export const noneModerationProvider = (): ModerationProvider => ({
+  name: "none",
+  classify: async () => ({ flagged: false, categories: [] }),
+});
@@ -0,0 +1,95 @@
+import { randomUUID } from "crypto";
+import type { Job, JobStatus } from "../../types/database.type";
+import type { EnqueueOptions, JobQueue } from "./queue.provider";
+
+// In-process queue. Jobs are lost on restart, so use it for development,
+// tests and single-instance deployments only.
+export const memoryJobQueue = (): JobQueue => {
+  const jobs = new Map<string, Job>();
+
+  const update = (jobId: string, changes: Partial<Job>) => {
+    const job = jobs.get(jobId);
+    if (job) {
+      jobs.set(jobId, { ...job, ...changes, updated_at: new Date().toISOString() });
+    }
+  };
+
+  return {
+    name: "memory",
+
+    enqueue: async (type: string, payload: Record<string, any>, options: EnqueueOptions = {}) => {
+      const now = new Date().toISOString();
+      const job: Job = {
+        id: randomUUID(),
+        type,
+        payload,
+        status: "queued",
+        attempts: 0,
+        max_attempts: options.maxAttempts ?? 3,
+        last_error: null,
+        run_at: (options.runAt || new Date()).toISOString(),
+        locked_at: null,
+        created_at: now,
+        updated_at: now,
+      };
+      jobs.set(job.id, job);
+      return job;
+    },
+
+    claim: async (types: string[]) => {
+      const now = Date.now();
+      const next = [...jobs.values()]
+        .filter((job) => types.includes(job.type))
+        .filter((job) => job.status === "queued" && Date.parse(job.run_at) <= now)
+        .sort((a, b) => Date.parse(a.run_at) - Date.parse(b.run_at))[0];
+
+      if (!next) return null;
+
+      update(next.id, {
+        status: "processing",
+        attempts: next.attempts + 1,
+        locked_at: new Date().toISOString(),
+      });
+      return jobs.get(next.id) || null;
+    },
+
+    extendLease: async (jobId: string, attempt: number) => {
+      const job = jobs.get(jobId);
+      if (!job || job.status !== "processing" || job.attempts !== attempt) return false;
+      update(jobId, { locked_at: new Date().toISOString() });
+      return true;
+    },
+
+    complete: async (jobId: string) => {
+      update(jobId, { status: "completed", locked_at: null });
+    },
+
+    retry: async (jobId: string, error: string, runAt: Date) => {
+      update(jobId, {
+        status: "queued",
+        last_error: error,
+        run_at: runAt.toISOString(),
+        locked_at: null,
+      });
+    },
+
+    bury: async (jobId: string, error: string) => {
+      update(jobId, { status: "dead", last_error: error, locked_at: null });
+    },
+
+    requeue: async (jobId: string) => {
+      const job = jobs.get(jobId);
+      if (!job || job.status !== "dead") return null;
+      update(jobId, { status: "queued", attempts: 0, run_at: new Date().toISOString() });
+      return jobs.get(jobId) || null;
+    },
+
+    get: async (jobId: string) => jobs.get(jobId) || null,
+
+    list: async (status?: JobStatus, limit: number = 50) =>
+      [...jobs.values()]
+        .filter((job) => !status || job.status === status)
+        .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at))
+        .slice(0, limit),
+  };
+};
@@ -0,0 +1,145 @@
+import { supabase } from "../../lib/supabase";
+import type { Job, JobStatus } from "../../types/database.type";
+import type { EnqueueOptions, JobQueue } from "./queue.provider";
+
+interface PostgresQueueOptions {
+  lockTimeoutSeconds: number;
+}
+
+// Durable queue on the jobs table. Claiming goes through the
+// claim_next_job function, which uses FOR UPDATE SKIP LOCKED so several
+// API instances can share the work.
+export const postgresJobQueue = ({ lockTimeoutSeconds }: PostgresQueueOptions): JobQueue => {
+  const update = async (jobId: string, changes: Partial<Job>) => {
+    const { error } = await supabase
+      .from("jobs")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", jobId);
+
+    if (error) {
+      throw new Error(`Failed to update job ${jobId}: ${error.message}`);
+    }
+  };
+
+  const get = async (jobId: string): Promise<Job | null> => {
+    const { data, error } = await supabase
+      .from("jobs")
+      .select("*")
+      .eq("id", jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch job ${jobId}: ${error.message}`);
+    }
+    return data;
+  };
+
+  return {
+    name: "postgres",
+
+    enqueue: async (type: string, payload: Record<string, any>, options: EnqueueOptions = {}) => {
+      const { data, error } = await supabase
+        .from("jobs")
+        .insert({
+          type,
+          payload,
+          max_attempts: options.maxAttempts ?? 3,
+          run_at: (options.runAt || new Date()).toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to enqueue ${type} job: ${error.message}`);
+      }
+      return data;
+    },
+
+    claim: async (types: string[]) => {
+      const { data, error } = await supabase.rpc("claim_next_job", {
+        job_types: types,
+        lock_timeout_seconds: lockTimeoutSeconds,
+      });
+
+      if (error) {
+        throw new Error(`Failed to claim job: ${error.message}`);
+      }
+      return Array.isArray(data) && data.length > 0 ? data[0] : null;
+    },
+
+    // The attempt count tells this worker's lease from one taken over by
+    // another worker after it timed out
+    extendLease: async (jobId: string, attempt: number) => {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from("jobs")
+        .update({ locked_at: now, updated_at: now })
+        .eq("id", jobId)
+        .eq("status", "processing")
+        .eq("attempts", attempt)
+        .select("id");
+
+      if (error) {
+        throw new Error(`Failed to extend lease of job ${jobId}: ${error.message}`);
+      }
+      return (data || []).length > 0;
+    },
+
+    complete: async (jobId: string) => {
+      await update(jobId, { status: "completed", locked_at: null });
+    },
+
+    retry: async (jobId: string, error: string, runAt: Date) => {
+      await update(jobId, {
+        status: "queued",
+        last_error: error,
+        run_at: runAt.toISOString(),
+        locked_at: null,
+      });
+    },
+
+    bury: async (jobId: string, error: string) => {
+      await update(jobId, { status: "dead", last_error: error, locked_at: null });
+    },
+
+    requeue: async (jobId: string) => {
+      const { data, error } = await supabase
+        .from("jobs")
+        .update({
+          status: "queued",
+          attempts: 0,
+          run_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", jobId)
+        .eq("status", "dead")
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to requeue job ${jobId}: ${error.message}`);
+      }
+      return data;
+    },
+
+    get,
+
+    list: async (status?: JobStatus, limit: number = 50) => {
+      let query = supabase
+        .from("jobs")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (status) {
+        query = query.eq("status", status);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to list jobs: ${error.message}`);
+      }
+      return data || [];
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import type { Job, JobStatus } from "../../types/database.type";
+import { memoryJobQueue } from "./memory.provider";
+import { postgresJobQueue } from "./postgres.provider";
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export interface JobQueue {
+  readonly name: string;
+  enqueue(type: string, payload: Record<string, any>, options?: EnqueueOptions): Promise<Job>;
+  // Lease the next due job of one of the given types, if any
+  claim(types: string[]): Promise<Job | null>;
+  // Renew the lease of a job still being worked on so it isn't handed out
+  // again. False when the given attempt no longer holds it.
+  extendLease(jobId: string, attempt: number): Promise<boolean>;
+  complete(jobId: string): Promise<void>;
+  // Put a failed job back in the queue to be retried at runAt
+  retry(jobId: string, error: string, runAt: Date): Promise<void>;
+  // Move a job that ran out of attempts to the dead-letter state
+  bury(jobId: string, error: string): Promise<void>;
+  // Give a dead job a fresh set of attempts
+  requeue(jobId: string): Promise<Job | null>;
+  get(jobId: string): Promise<Job | null>;
+  list(status?: JobStatus, limit?: number): Promise<Job[]>;
+}
+
+let activeQueue: JobQueue | null = null;
+
+export const createJobQueue = (name: string): JobQueue => {
+  switch (name) {
+    case "postgres":
+      return postgresJobQueue({
+        lockTimeoutSeconds: parseInt(process.env.JOB_LOCK_TIMEOUT_SECONDS || "600"),
+      });
+    case "memory":
+      return memoryJobQueue();
+    default:
+      throw new Error(`Unknown job queue: ${name}`);
+  }
+};
+
+// Queue selected by JOB_QUEUE, created on first use
+export const getJobQueue = (): JobQueue => {
+  if (!activeQueue) {
+    activeQueue = createJobQueue(process.env.JOB_QUEUE || "postgres");
+  }
+  return activeQueue;
+};
+
+export const setJobQueue = (queue: JobQueue): void => {
+  activeQueue = queue;
+};
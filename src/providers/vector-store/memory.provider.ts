@@ -0,0 +1,61 @@
+import { cosineSimilarity } from "../../utils/embedding.util";
+import { bm25Scores } from "../../utils/bm25.util";
+import type { PassageMatch, VectorStore } from "./vector-store.provider";
+
+export interface StoredPassage extends Omit<PassageMatch, "score"> {
+  title_id: string;
+  embedding: number[];
+  embedding_model: string;
+}
+
+export interface MemoryVectorStore extends VectorStore {
+  add(passages: StoredPassage[]): void;
+  removeChapter(chapterId: string): void;
+}
+
+// Brute-force search over passages held in memory, for tests and offline
+// runs. Full-text search is approximated with BM25.
+export const memoryVectorStore = (initial: StoredPassage[] = []): MemoryVectorStore => {
+  let passages = [...initial];
+
+  const candidates = (titleId: string, embeddingModel: string, chapterLimit: number | null) =>
+    passages.filter(
+      (passage) =>
+        passage.title_id === titleId &&
+        passage.embedding_model === embeddingModel &&
+        passage.chapter_order <= (chapterLimit || Infinity)
+    );
+
+  const toMatch = ({ title_id, embedding, embedding_model, ...passage }: StoredPassage, score: number): PassageMatch => ({
+    ...passage,
+    score,
+  });
+
+  return {
+    name: "memory",
+
+    add: (newPassages: StoredPassage[]) => {
+      passages.push(...newPassages);
+    },
+
+    removeChapter: (chapterId: string) => {
+      passages = passages.filter((passage) => passage.chapter_id !== chapterId);
+    },
+
+    searchByVector: async (titleId, embeddingModel, embedding, chapterLimit, matchCount) =>
+      candidates(titleId, embeddingModel, chapterLimit)
+        .map((passage) => toMatch(passage, cosineSimilarity(embedding, passage.embedding)))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, matchCount),
+
+    searchByText: async (titleId, embeddingModel, query, chapterLimit, matchCount) => {
+      const pool = candidates(titleId, embeddingModel, chapterLimit);
+      const scores = bm25Scores(query, pool.map((passage) => passage.content));
+      return pool
+        .map((passage, i) => toMatch(passage, scores[i]))
+        .filter((match) => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, matchCount);
+    },
+  };
+};
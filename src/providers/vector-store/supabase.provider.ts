@@ -0,0 +1,38 @@
+import { supabase } from "../../lib/supabase";
+import type { PassageMatch, VectorStore } from "./vector-store.provider";
+
+// Search runs in Postgres through RPC functions, so only the top matches
+// within the chapter limit ever leave the database
+export const supabaseVectorStore = (): VectorStore => ({
+  name: "supabase",
+
+  searchByVector: async (titleId, embeddingModel, embedding, chapterLimit, matchCount): Promise<PassageMatch[]> => {
+    const { data, error } = await supabase.rpc("match_chapter_chunks", {
+      p_title_id: titleId,
+      p_embedding_model: embeddingModel,
+      query_embedding: JSON.stringify(embedding),
+      chapter_limit: chapterLimit,
+      match_count: matchCount,
+    });
+
+    if (error) {
+      throw new Error(`Vector search failed: ${error.message}`);
+    }
+    return data || [];
+  },
+
+  searchByText: async (titleId, embeddingModel, query, chapterLimit, matchCount): Promise<PassageMatch[]> => {
+    const { data, error } = await supabase.rpc("search_chapter_chunks", {
+      p_title_id: titleId,
+      p_embedding_model: embeddingModel,
+      query_text: query,
+      chapter_limit: chapterLimit,
+      match_count: matchCount,
+    });
+
+    if (error) {
+      throw new Error(`Full-text search failed: ${error.message}`);
+    }
+    return data || [];
+  },
+});
@@ -0,0 +1,59 @@
+import { supabaseVectorStore } from "./supabase.provider";
+import { memoryVectorStore } from "./memory.provider";
+
+export interface PassageMatch {
+  chunk_id: string;
+  chapter_id: string;
+  chapter_name: string | null;
+  chapter_order: number;
+  chunk_index: number;
+  content: string;
+  score: number; // cosine similarity or full-text rank, depending on the search
+}
+
+// Passages of a title are only ever searched up to a chapter limit, and
+// only the top matches are returned. Only passages embedded with
+// embeddingModel (the title's active model) are searched, by text too, so
+// a title being re-embedded into another model never matches twice.
+export interface VectorStore {
+  readonly name: string;
+  searchByVector(
+    titleId: string,
+    embeddingModel: string,
+    embedding: number[],
+    chapterLimit: number | null,
+    matchCount: number
+  ): Promise<PassageMatch[]>;
+  searchByText(
+    titleId: string,
+    embeddingModel: string,
+    query: string,
+    chapterLimit: number | null,
+    matchCount: number
+  ): Promise<PassageMatch[]>;
+}
+
+let activeStore: VectorStore | null = null;
+
+export const createVectorStore = (name: string): VectorStore => {
+  switch (name) {
+    case "supabase":
+      return supabaseVectorStore();
+    case "memory":
+      return memoryVectorStore();
+    default:
+      throw new Error(`Unknown vector store: ${name}`);
+  }
+};
+
+// Store selected by VECTOR_STORE, created on first use
+export const getVectorStore = (): VectorStore => {
+  if (!activeStore) {
+    activeStore = createVectorStore(process.env.VECTOR_STORE || "supabase");
+  }
+  return activeStore;
+};
+
+export const setVectorStore = (store: VectorStore): void => {
+  activeStore = store;
+};
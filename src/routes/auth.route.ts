@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { authService } from '../services/auth.service';
 import { authenticateUser } from '../middleware/auth.middleware';
+import { STRICT_CHAPTER_LIMIT_MODES } from '../services/progress.service';
+import { usageService } from '../services/usage.service';
 import Joi from 'joi';
 
 const router = Router();
@@ -23,7 +25,8 @@ const resetPasswordSchema = Joi.object({
 
 const updateProfileSchema = Joi.object({
   name: Joi.string().optional(),
-  email: Joi.string().email().optional()
+  email: Joi.string().email().optional(),
+  strict_chapter_limit: Joi.string().valid(...STRICT_CHAPTER_LIMIT_MODES).optional()
 }).min(1);
 
 const refreshTokenSchema = Joi.object({
@@ -104,10 +107,13 @@ router.get('/me', authenticateUser, async (req: Request, res: Response) => {
   try {
     // User is already validated by authenticateUser middleware
     const user = (req as any).user;
-    
+
+    // AI usage against the user's plan; null if it couldn't be read
+    const usageResult = await usageService.getSummary(user);
+
    return  res.json({
       success: true,
-      data: { user }
+      data: { user, usage: usageResult.data ?? null }
     });
   } catch (error) {
     return res.status(500).json({
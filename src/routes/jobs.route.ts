@@ -0,0 +1,101 @@
+import { Router, Request, Response } from "express";
+import { jobsService } from "../services/jobs.service";
+import { authenticateUser, requireAdmin } from "../middleware/auth.middleware";
+import type { JobStatus } from "../types/database.type";
+import Joi from "joi";
+
+const router = Router();
+
+// Validation schemas
+const jobIdSchema = Joi.object({
+  jobId: Joi.string().uuid().required(),
+});
+
+const listJobsQuerySchema = Joi.object({
+  status: Joi.string()
+    .valid("queued", "processing", "completed", "dead")
+    .optional(),
+  limit: Joi.number().integer().min(1).max(200).optional(),
+});
+
+// GET /api/jobs - List background jobs, e.g. ?status=dead for the dead-letter queue (admin only)
+router.get(
+  "/",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = listJobsQuerySchema.validate(req.query);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const status = req.query.status as JobStatus | undefined;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const result = await jobsService.listJobs(status, limit);
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/jobs/:jobId - Get a single job (admin only)
+router.get(
+  "/:jobId",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = jobIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const result = await jobsService.getJob(req.params.jobId);
+      return res.status(result.success ? 200 : 404).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/jobs/:jobId/retry - Requeue a dead-lettered job (admin only)
+router.post(
+  "/:jobId/retry",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = jobIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const result = await jobsService.retryDeadJob(req.params.jobId);
+      return res.status(result.success ? 200 : 404).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+export { router as jobsRouter };
@@ -0,0 +1,134 @@
+import { Router, Request, Response } from "express";
+import {
+  promptTemplatesService,
+  PROMPT_TEMPLATE_NAMES,
+  type PromptTemplateName,
+} from "../services/prompt-templates.service";
+import { authenticateUser, requireAdmin } from "../middleware/auth.middleware";
+import Joi from "joi";
+
+const router = Router();
+
+// Validation schemas
+const templateNameSchema = Joi.object({
+  name: Joi.string().valid(...PROMPT_TEMPLATE_NAMES).required(),
+});
+
+const listQuerySchema = Joi.object({
+  name: Joi.string().valid(...PROMPT_TEMPLATE_NAMES).optional(),
+});
+
+const createVersionSchema = Joi.object({
+  template: Joi.string().required(),
+  description: Joi.string().optional(),
+  activate: Joi.boolean().optional(),
+});
+
+const activateSchema = Joi.object({
+  version: Joi.number().integer().min(1).required(),
+});
+
+// GET /api/prompts - List prompt template versions (admin only)
+router.get(
+  "/",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = listQuerySchema.validate(req.query);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const name = req.query.name as PromptTemplateName | undefined;
+      const result = await promptTemplatesService.listTemplates(name);
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/prompts/:name/versions - Add a new version of a template (admin only)
+router.post(
+  "/:name/versions",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: paramError } = templateNameSchema.validate(req.params);
+      if (paramError) {
+        return res.status(400).json({
+          success: false,
+          error: paramError.details[0].message,
+        });
+      }
+
+      const { error: bodyError } = createVersionSchema.validate(req.body);
+      if (bodyError) {
+        return res.status(400).json({
+          success: false,
+          error: bodyError.details[0].message,
+        });
+      }
+
+      const result = await promptTemplatesService.createVersion(
+        req.params.name as PromptTemplateName,
+        req.body.template,
+        req.body.description || null,
+        Boolean(req.body.activate)
+      );
+      return res.status(result.success ? 201 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// PUT /api/prompts/:name/active - Switch the version used for new answers (admin only)
+router.put(
+  "/:name/active",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: paramError } = templateNameSchema.validate(req.params);
+      if (paramError) {
+        return res.status(400).json({
+          success: false,
+          error: paramError.details[0].message,
+        });
+      }
+
+      const { error: bodyError } = activateSchema.validate(req.body);
+      if (bodyError) {
+        return res.status(400).json({
+          success: false,
+          error: bodyError.details[0].message,
+        });
+      }
+
+      const result = await promptTemplatesService.activateVersion(
+        req.params.name as PromptTemplateName,
+        req.body.version
+      );
+      return res.status(result.success ? 200 : 404).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+export { router as promptsRouter };
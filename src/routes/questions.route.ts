@@ -1,7 +1,17 @@
 import { Router, Request, Response } from "express";
 import { questionsService } from "../services/questions.service";
-import { authenticateUser } from "../middleware/auth.middleware";
+import { authenticateUser, isAdmin, requireAdmin } from "../middleware/auth.middleware";
+import { requireQuota } from "../middleware/quota.middleware";
 import { aiService } from "../services/ai.service";
+import { answerQueueService } from "../services/answer-queue.service";
+import { answerCacheService } from "../services/answer-cache.service";
+import { threadsService } from "../services/threads.service";
+import { progressService, type ResolvedChapterLimit } from "../services/progress.service";
+import { feedbackService, type FeedbackFlag } from "../services/feedback.service";
+import { LLM_PROVIDER_NAMES } from "../providers/llm/llm.provider";
+import { maxQuestionLength, moderationService, type ScreeningResult } from "../services/moderation.service";
+import { QUESTION_STATUSES, type QuestionStatus, type QuestionRefusalReason } from "../types/database.type";
+import { isUpstreamOutage } from "../utils/resilience.util";
 import Joi from "joi";
 
 const router = Router();
@@ -16,21 +26,63 @@ const userIdSchema = Joi.object({
 });
 
 const createQuestionSchema = Joi.object({
+  title_id: Joi.string().uuid().required(),
+  question_text: Joi.string().trim().max(maxQuestionLength()).required(),
+  // Defaults to the reader's saved progress, or to the thread's limit for follow-ups
+  chapter_limit: Joi.number().integer().min(1).optional(),
+  parent_question_id: Joi.string().uuid().optional(),
+  raise_chapter_limit: Joi.boolean().optional(),
+  // The reader knowingly asks beyond their saved progress
+  ask_ahead: Joi.boolean().optional(),
+});
+
+// Shown to the reader when screening refuses their question
+const REFUSAL_MESSAGES: Record<QuestionRefusalReason, string> = {
+  too_long: "Question is too long; shorten it and ask again",
+  prompt_injection: "Question looks like an attempt to change the assistant's instructions; ask about the book instead",
+  unsafe_content: "Question was flagged by the content-safety check",
+};
+
+const answerOptionsSchema = Joi.object({
+  provider: Joi.string().valid(...LLM_PROVIDER_NAMES).optional(),
+  model: Joi.string().optional(),
+});
+
+const promptPreviewQuerySchema = Joi.object({
+  template_version: Joi.number().integer().min(1).optional(),
+  provider: Joi.string().valid(...LLM_PROVIDER_NAMES).optional(),
+  model: Joi.string().optional(),
+});
+
+const retrievalDryRunSchema = Joi.object({
   title_id: Joi.string().uuid().required(),
   question_text: Joi.string().required(),
-  chapter_limit: Joi.number().integer().min(1).required(),
+  chapter_limit: Joi.number().integer().min(1).allow(null).optional(),
+});
+
+const feedbackSchema = Joi.object({
+  rating: Joi.number().valid(-1, 1).allow(null).optional(),
+  spoiled: Joi.boolean().optional(),
+  wrong_answer: Joi.boolean().optional(),
+  comment: Joi.string().max(2000).allow(null, "").optional(),
+}).min(1);
+
+const flaggedQuerySchema = Joi.object({
+  flag: Joi.string().valid("spoiled", "wrong_answer", "thumbs_down").optional(),
+  limit: Joi.number().integer().min(1).max(200).optional(),
 });
 
 const updateAnswerSchema = Joi.object({
   answer_text: Joi.string().required(),
 });
 
+// Queueing, processing, spoiler blocks and refusals are set by the server only
 const updateStatusSchema = Joi.object({
   status: Joi.string().valid("pending", "answered", "failed").required(),
 });
 
 const statusQuerySchema = Joi.object({
-  status: Joi.string().valid("pending", "answered", "failed").required(),
+  status: Joi.string().valid(...QUESTION_STATUSES).required(),
 });
 
 const daysQuerySchema = Joi.object({
@@ -42,8 +94,8 @@ const titleQuerySchema = Joi.object({
 });
 
 
-// POST /api/questions - Create a new question
-router.post("/", authenticateUser, async (req: Request, res: Response) => {
+// POST /api/questions - Create a new question and queue it for answering
+router.post("/", authenticateUser, requireQuota, async (req: Request, res: Response) => {
   console.log("Incoming request body:", req.body); // 🧪 Add this line
 
   try {
@@ -56,13 +108,99 @@ router.post("/", authenticateUser, async (req: Request, res: Response) => {
     }
 
     const user = (req as any).user;
+    const { title_id, question_text, chapter_limit, parent_question_id, raise_chapter_limit, ask_ahead } = req.body;
+
+    // Check the limit against the reader's progress; follow-ups without one
+    // keep their thread's limit
+    let resolved: ResolvedChapterLimit | undefined;
+    if (chapter_limit || !parent_question_id) {
+      const limitResult = await progressService.resolveChapterLimit(user, title_id, chapter_limit, ask_ahead);
+      if (!limitResult.success || !limitResult.data) {
+        return res.status(400).json(limitResult);
+      }
+      resolved = limitResult.data;
+    }
+
+    // Screen before anything is written, so refused questions never reach
+    // the model or leave a thread behind. If the classifier is down the
+    // question is queued anyway; the answer job screens it again.
+    let screening: ScreeningResult | null = null;
+    try {
+      screening = await moderationService.screenQuestion(question_text, { userId: user.id, titleId: title_id });
+    } catch (error) {
+      console.error("Question screening failed, deferring to the answer job:", error);
+    }
+    const screenedAt = screening ? new Date().toISOString() : null;
+
+    if (screening && !screening.allowed) {
+      const refused = await questionsService.createQuestion(
+        {
+          user_id: user.id,
+          title_id,
+          question_text,
+          chapter_limit: resolved?.chapter_limit ?? null,
+          asked_ahead: resolved?.asked_ahead || false,
+          refusal_reason: screening.reason,
+          refusal_detail: screening.detail,
+          screened_at: screenedAt,
+        },
+        "refused"
+      );
+      if (!refused.success || !refused.data) {
+        return res.status(400).json(refused);
+      }
+
+      return res.status(422).json({
+        success: false,
+        data: refused.data,
+        error: REFUSAL_MESSAGES[screening.reason!],
+        refusal_reason: screening.reason,
+      });
+    }
+
+    // A follow-up may not look further ahead than its thread unless asked to
+    const placement = await threadsService.placeQuestion({
+      userId: user.id,
+      titleId: title_id,
+      chapterLimit: resolved?.chapter_limit,
+      parentQuestionId: parent_question_id,
+      raiseChapterLimit: raise_chapter_limit,
+    });
+    if (!placement.success || !placement.data) {
+      return res.status(400).json(placement);
+    }
+
     const questionData = {
       user_id: user.id,
-      ...req.body,
+      title_id,
+      question_text,
+      chapter_limit: placement.data.chapter_limit,
+      thread_id: placement.data.thread.id,
+      parent_question_id: placement.data.parent_question_id,
+      asked_ahead: resolved?.asked_ahead || false,
+      screened_at: screenedAt,
     };
 
-    const result = await questionsService.createQuestion(questionData);
-    return res.status(result.success ? 201 : 400).json(result);
+    const result = await questionsService.createQuestion(questionData, "queued");
+    if (!result.success || !result.data) {
+      return res.status(400).json(result);
+    }
+
+    // Answering happens in the background; clients poll the question's status
+    const jobResult = await answerQueueService.enqueueQuestion(result.data.id);
+    if (!jobResult.success) {
+      return res.status(500).json({
+        success: false,
+        error: jobResult.error,
+      });
+    }
+
+    return res.status(201).json({
+      ...result,
+      message: resolved?.clamped
+        ? `Question queued for answering; chapter_limit lowered to your reading progress (chapter ${resolved.chapter_limit})`
+        : "Question queued for answering",
+    });
   } catch (error) {
     return res.status(500).json({
       success: false,
@@ -71,19 +209,139 @@ router.post("/", authenticateUser, async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/questions/:id/answer - Generate an AI answer for a question
+// Add ?stream=true (or Accept: text/event-stream) to receive tokens over SSE
 router.post(
   "/:id/answer",
   authenticateUser,
+  requireQuota,
   async (req: Request, res: Response) => {
     const questionId = req.params.id;
       console.log("🧠 Reached /:id/answer route with ID:", questionId);
 
     try {
-      const answer = await aiService.generateAnswer(questionId);
-      res.json({ success: true, answer });
+      const { error: bodyError } = answerOptionsSchema.validate(req.body);
+      if (bodyError) {
+        return res.status(400).json({
+          success: false,
+          error: bodyError.details[0].message,
+        });
+      }
+
+      const user = (req as any).user;
+
+      // Only admins may pick a different provider or model per request
+      const { provider, model } = req.body || {};
+      if ((provider || model) && !isAdmin(user)) {
+        return res.status(403).json({
+          success: false,
+          error: "Admin access required to override the AI provider or model",
+        });
+      }
+
+      const questionResult = await questionsService.getQuestionById(questionId);
+      if (!questionResult.success || !questionResult.data) {
+        return res.status(404).json(questionResult);
+      }
+
+      if (questionResult.data.user_id !== user.id && !isAdmin(user)) {
+        return res.status(403).json({
+          success: false,
+          error: "Access denied",
+        });
+      }
+
+      // A queued question is answered by the job worker; answering it here
+      // as well would race it and overwrite one answer with the other
+      const status = questionResult.data.status;
+      if (status === "queued" || status === "processing") {
+        return res.status(409).json({
+          success: false,
+          error: "An answer for this question is already being generated",
+        });
+      }
+
+      // Replacing an answer goes through regenerate, which keeps the old one
+      // in the question's history
+      if (questionResult.data.answer_text !== null || status === "blocked_spoiler") {
+        return res.status(409).json({
+          success: false,
+          error: `This question already has an answer; use POST /api/questions/${questionId}/regenerate for a new one`,
+        });
+      }
+
+      // Usage goes to the caller, whose quota requireQuota checked
+      const answerOptions = { provider, model, chargeUserId: user.id };
+
+      const wantsStream =
+        req.query.stream === "true" ||
+        (req.headers.accept || "").includes("text/event-stream");
+
+      if (!wantsStream) {
+        const { answer, citations, status, reused } = await aiService.generateAnswer(questionId, answerOptions);
+        return res.json({ success: true, answer, citations, status, reused });
+      }
+
+      // Server-Sent Events: one "token" event per chunk, then "done" or "error"
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+
+      // Keep generating if the client goes away so the answer is still saved
+      let clientGone = false;
+      req.on("close", () => {
+        clientGone = true;
+      });
+
+      const sendEvent = (event: string, data: unknown) => {
+        if (!clientGone) {
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      };
+
+      try {
+        const { answer, citations, status, spoilerAction, reused } = await aiService.generateAnswer(
+          questionId,
+          answerOptions,
+          (token) => sendEvent("token", { text: token })
+        );
+        // When spoiler_action is not "none", answer replaces the streamed text
+        sendEvent("done", {
+          success: true,
+          answer,
+          citations,
+          status,
+          spoiler_action: spoilerAction,
+          reused,
+        });
+      } catch (error: any) {
+        console.error("AI Answer Stream Error:", error);
+        sendEvent("error", {
+          success: false,
+          error: error.message,
+          failure_reason: isUpstreamOutage(error) ? "upstream_unavailable" : "error",
+          ...(isUpstreamOutage(error) && error.retryAfterMs && { retry_after: Math.ceil(error.retryAfterMs / 1000) }),
+        });
+      }
+
+      return res.end();
     } catch (error: any) {
       console.error("AI Answer Error:", error);
-      res.status(500).json({ success: false, error: error.message });
+      // The AI service being down is not the question's fault
+      if (isUpstreamOutage(error)) {
+        if (error.retryAfterMs) {
+          res.setHeader("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+        }
+        return res.status(503).json({
+          success: false,
+          error: error.message,
+          failure_reason: "upstream_unavailable",
+        });
+      }
+      return res.status(500).json({ success: false, error: error.message, failure_reason: "error" });
     }
   }
 );
@@ -175,7 +433,7 @@ router.get(
       }
 
       const user = (req as any).user;
-      const status = req.params.status as "pending" | "answered" | "failed";
+      const status = req.params.status as QuestionStatus;
       const result = await questionsService.getQuestionsByStatus(
         user.id,
         status
@@ -284,6 +542,356 @@ router.get(
   }
 );
 
+// POST /api/questions/retrieval/dry-run - Explain retrieval for an ad-hoc
+// question without storing or answering it (admin only)
+router.post(
+  "/retrieval/dry-run",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = retrievalDryRunSchema.validate(req.body);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const report = await aiService.dryRunRetrieval({
+        title_id: req.body.title_id,
+        question_text: req.body.question_text,
+        chapter_limit: req.body.chapter_limit ?? null,
+      });
+      return res.status(200).json({ success: true, data: report });
+    } catch (error: any) {
+      console.error("Retrieval Dry Run Error:", error);
+      return res.status(400).json({ success: false, error: error.message });
+    }
+  }
+);
+
+// GET /api/questions/:questionId/retrieval - Explain how passages were chosen
+// for a question: query embedding, scored candidates, what chapter_limit
+// filtered out and the final context (admin only)
+router.get(
+  "/:questionId/retrieval",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = questionIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const report = await aiService.explainQuestionRetrieval(req.params.questionId);
+      return res.status(200).json({ success: true, data: report });
+    } catch (error: any) {
+      console.error("Retrieval Explain Error:", error);
+      return res.status(400).json({ success: false, error: error.message });
+    }
+  }
+);
+
+// GET /api/questions/:questionId/prompt-preview - Render the prompt a question
+// would be answered with, optionally with another template version (admin only)
+router.get(
+  "/:questionId/prompt-preview",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: paramError } = questionIdSchema.validate(req.params);
+      if (paramError) {
+        return res.status(400).json({
+          success: false,
+          error: paramError.details[0].message,
+        });
+      }
+
+      const { error: queryError } = promptPreviewQuerySchema.validate(req.query);
+      if (queryError) {
+        return res.status(400).json({
+          success: false,
+          error: queryError.details[0].message,
+        });
+      }
+
+      const preview = await aiService.previewPrompt(req.params.questionId, {
+        provider: req.query.provider as string | undefined,
+        model: req.query.model as string | undefined,
+        templateVersion: req.query.template_version
+          ? parseInt(req.query.template_version as string)
+          : undefined,
+      });
+      return res.status(200).json({ success: true, data: preview });
+    } catch (error: any) {
+      console.error("Prompt Preview Error:", error);
+      return res.status(400).json({ success: false, error: error.message });
+    }
+  }
+);
+
+// GET /api/questions/feedback/flagged - Answers readers flagged as spoiling,
+// wrong or thumbs-down, for prompt and retrieval tuning (admin only)
+router.get(
+  "/feedback/flagged",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = flaggedQuerySchema.validate(req.query);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const flag = req.query.flag as FeedbackFlag | undefined;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const result = await feedbackService.listFlagged(flag, limit);
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/questions/feedback/summary - Feedback totals per prompt template version (admin only)
+router.get(
+  "/feedback/summary",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await feedbackService.summarizeByTemplate();
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/questions/:questionId/feedback - Rate or flag the current answer
+router.post(
+  "/:questionId/feedback",
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: paramError } = questionIdSchema.validate(req.params);
+      if (paramError) {
+        return res.status(400).json({
+          success: false,
+          error: paramError.details[0].message,
+        });
+      }
+
+      const { error: bodyError } = feedbackSchema.validate(req.body);
+      if (bodyError) {
+        return res.status(400).json({
+          success: false,
+          error: bodyError.details[0].message,
+        });
+      }
+
+      const questionResult = await questionsService.getQuestionById(
+        req.params.questionId
+      );
+      if (!questionResult.success || !questionResult.data) {
+        return res.status(404).json(questionResult);
+      }
+
+      const user = (req as any).user;
+      if (questionResult.data.user_id !== user.id) {
+        return res.status(403).json({
+          success: false,
+          error: "Access denied",
+        });
+      }
+
+      if (questionResult.data.status !== "answered") {
+        return res.status(409).json({
+          success: false,
+          error: "Only answered questions can receive feedback",
+        });
+      }
+
+      const result = await feedbackService.submitFeedback(
+        questionResult.data,
+        user.id,
+        req.body
+      );
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/questions/:questionId/feedback - Get your feedback on each answer version
+router.get(
+  "/:questionId/feedback",
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = questionIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const user = (req as any).user;
+      const result = await feedbackService.getUserFeedback(
+        req.params.questionId,
+        user.id
+      );
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/questions/:questionId/regenerate - Archive the current answer and
+// queue a fresh one
+router.post(
+  "/:questionId/regenerate",
+  authenticateUser,
+  requireQuota,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = questionIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const questionResult = await questionsService.getQuestionById(
+        req.params.questionId
+      );
+      if (!questionResult.success || !questionResult.data) {
+        return res.status(404).json(questionResult);
+      }
+
+      const user = (req as any).user;
+      if (questionResult.data.user_id !== user.id) {
+        return res.status(403).json({
+          success: false,
+          error: "Access denied",
+        });
+      }
+
+      const status = questionResult.data.status;
+      if (status === "queued" || status === "processing") {
+        return res.status(409).json({
+          success: false,
+          error: "An answer for this question is already being generated",
+        });
+      }
+      // The text hasn't changed, so screening would refuse it again
+      if (status === "refused") {
+        return res.status(422).json({
+          success: false,
+          error: "This question was refused and can't be answered; ask a new one instead",
+        });
+      }
+
+      // Keep what the reader saw; failed attempts left nothing worth keeping
+      let question = questionResult.data;
+      if (question.answer_text !== null || status === "blocked_spoiler") {
+        const archived = await questionsService.archiveAnswer(question);
+        if (!archived.success || !archived.data) {
+          return res.status(400).json(archived);
+        }
+        question = archived.data;
+
+        // The old answer should not be handed out from the cache any more
+        await answerCacheService.invalidateSource(question.id);
+      }
+
+      const jobResult = await answerQueueService.enqueueQuestion(question.id, { skipCache: true });
+      if (!jobResult.success) {
+        return res.status(500).json({
+          success: false,
+          error: jobResult.error,
+        });
+      }
+
+      return res.status(202).json({
+        success: true,
+        data: { ...question, status: "queued" },
+        message: "Question queued for a new answer",
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/questions/:questionId/history - Get earlier answers to a question
+router.get(
+  "/:questionId/history",
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = questionIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const questionResult = await questionsService.getQuestionById(
+        req.params.questionId
+      );
+      if (!questionResult.success) {
+        return res.status(404).json(questionResult);
+      }
+
+      const user = (req as any).user;
+      if (questionResult.data?.user_id !== user.id) {
+        return res.status(403).json({
+          success: false,
+          error: "Access denied",
+        });
+      }
+
+      const result = await questionsService.getAnswerHistory(req.params.questionId);
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
 // PUT /api/questions/:questionId/answer - Update question with answer
 router.put(
   "/:questionId/answer",
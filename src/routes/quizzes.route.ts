@@ -0,0 +1,174 @@
+import { Router, Request, Response } from "express";
+import { quizService, QUIZ_ITEM_TYPES } from "../services/quiz.service";
+import { authenticateUser } from "../middleware/auth.middleware";
+import { requireQuota } from "../middleware/quota.middleware";
+import Joi from "joi";
+
+const router = Router();
+
+// Validation schemas
+const quizIdSchema = Joi.object({
+  quizId: Joi.string().uuid().required(),
+});
+
+const titleQuerySchema = Joi.object({
+  title_id: Joi.string().uuid().optional(),
+});
+
+const createQuizSchema = Joi.object({
+  title_id: Joi.string().uuid().required(),
+  from_chapter: Joi.number().integer().min(1).optional(),
+  question_count: Joi.number().integer().min(1).max(20).optional(),
+  types: Joi.array().items(Joi.string().valid(...QUIZ_ITEM_TYPES)).unique().optional(),
+});
+
+// One response per quiz item: the chosen option's index for multiple
+// choice, free text for short answers, null when skipped
+const attemptSchema = Joi.object({
+  answers: Joi.array()
+    .items(Joi.alternatives().try(Joi.number().integer().min(0), Joi.string().allow(""), null))
+    .required(),
+});
+
+// POST /api/quizzes - Generate a quiz from the chapters the reader has finished
+router.post("/", authenticateUser, requireQuota, async (req: Request, res: Response) => {
+  try {
+    const { error: validationError } = createQuizSchema.validate(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError.details[0].message,
+      });
+    }
+
+    const user = (req as any).user;
+    const { title_id, ...options } = req.body;
+    const result = await quizService.createQuiz(user.id, title_id, options);
+    return res.status(result.success ? 201 : 400).json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    });
+  }
+});
+
+// GET /api/quizzes - Get current user's quizzes, optionally for one title
+router.get("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const { error: queryError } = titleQuerySchema.validate(req.query);
+    if (queryError) {
+      return res.status(400).json({
+        success: false,
+        error: queryError.details[0].message,
+      });
+    }
+
+    const user = (req as any).user;
+    const titleId = req.query.title_id as string;
+    const result = await quizService.getUserQuizzes(user.id, titleId);
+    return res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    });
+  }
+});
+
+// GET /api/quizzes/:quizId - Get a quiz to take, with any graded attempts
+router.get(
+  "/:quizId",
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = quizIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const result = await quizService.getQuizById(req.params.quizId);
+      if (!result.success || !result.data) {
+        return res.status(404).json(result);
+      }
+
+      const user = (req as any).user;
+      if (result.data.user_id !== user.id) {
+        return res.status(403).json({
+          success: false,
+          error: "Access denied",
+        });
+      }
+
+      const attempts = await quizService.getAttempts(req.params.quizId, user.id);
+      if (!attempts.success) {
+        return res.status(400).json(attempts);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          ...quizService.hideAnswers(result.data),
+          attempts: attempts.data,
+        },
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/quizzes/:quizId/attempts - Submit answers; returns the graded
+// attempt with the answer key
+router.post(
+  "/:quizId/attempts",
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: paramError } = quizIdSchema.validate(req.params);
+      if (paramError) {
+        return res.status(400).json({
+          success: false,
+          error: paramError.details[0].message,
+        });
+      }
+
+      const { error: bodyError } = attemptSchema.validate(req.body);
+      if (bodyError) {
+        return res.status(400).json({
+          success: false,
+          error: bodyError.details[0].message,
+        });
+      }
+
+      const quizResult = await quizService.getQuizById(req.params.quizId);
+      if (!quizResult.success || !quizResult.data) {
+        return res.status(404).json(quizResult);
+      }
+
+      const user = (req as any).user;
+      if (quizResult.data.user_id !== user.id) {
+        return res.status(403).json({
+          success: false,
+          error: "Access denied",
+        });
+      }
+
+      const result = await quizService.submitAttempt(quizResult.data, user.id, req.body.answers);
+      return res.status(result.success ? 201 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+export { router as quizzesRouter };
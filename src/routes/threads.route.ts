@@ -0,0 +1,143 @@
+import { Router, Request, Response } from "express";
+import { threadsService } from "../services/threads.service";
+import { progressService } from "../services/progress.service";
+import { authenticateUser } from "../middleware/auth.middleware";
+import Joi from "joi";
+
+const router = Router();
+
+// Validation schemas
+const threadIdSchema = Joi.object({
+  threadId: Joi.string().uuid().required(),
+});
+
+const titleQuerySchema = Joi.object({
+  title_id: Joi.string().uuid().optional(),
+});
+
+const chapterLimitSchema = Joi.object({
+  chapter_limit: Joi.number().integer().min(1).required(),
+  ask_ahead: Joi.boolean().optional(),
+});
+
+// GET /api/threads - Get current user's threads, optionally for one title
+router.get("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const { error: queryError } = titleQuerySchema.validate(req.query);
+    if (queryError) {
+      return res.status(400).json({
+        success: false,
+        error: queryError.details[0].message,
+      });
+    }
+
+    const user = (req as any).user;
+    const titleId = req.query.title_id as string;
+    const result = await threadsService.getUserThreads(user.id, titleId);
+    return res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    });
+  }
+});
+
+// GET /api/threads/:threadId - Get a thread with its questions in order
+router.get(
+  "/:threadId",
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = threadIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const result = await threadsService.getThreadById(req.params.threadId);
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      const user = (req as any).user;
+      if (result.data?.user_id !== user.id) {
+        return res.status(403).json({
+          success: false,
+          error: "Access denied",
+        });
+      }
+
+      return res.status(200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// PUT /api/threads/:threadId/chapter-limit - Explicitly move a thread's chapter limit
+router.put(
+  "/:threadId/chapter-limit",
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: paramError } = threadIdSchema.validate(req.params);
+      if (paramError) {
+        return res.status(400).json({
+          success: false,
+          error: paramError.details[0].message,
+        });
+      }
+
+      const { error: bodyError } = chapterLimitSchema.validate(req.body);
+      if (bodyError) {
+        return res.status(400).json({
+          success: false,
+          error: bodyError.details[0].message,
+        });
+      }
+
+      const threadResult = await threadsService.getThreadById(req.params.threadId);
+      if (!threadResult.success || !threadResult.data) {
+        return res.status(404).json(threadResult);
+      }
+
+      const user = (req as any).user;
+      if (threadResult.data.user_id !== user.id) {
+        return res.status(403).json({
+          success: false,
+          error: "Access denied",
+        });
+      }
+
+      // Moving a thread ahead of the reader's progress follows their strict mode
+      const limitResult = await progressService.resolveChapterLimit(
+        user,
+        threadResult.data.title_id,
+        req.body.chapter_limit,
+        req.body.ask_ahead
+      );
+      if (!limitResult.success || !limitResult.data) {
+        return res.status(400).json(limitResult);
+      }
+
+      const result = await threadsService.updateChapterLimit(
+        req.params.threadId,
+        limitResult.data.chapter_limit
+      );
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+export { router as threadsRouter };
@@ -1,6 +1,17 @@
 import { Router, Request, Response } from "express";
 import { titlesService } from "../services/titles.service";
-import { authenticateUser, optionalAuth } from "../middleware/auth.middleware";
+import { ingestionService } from "../services/ingestion.service";
+import { embeddingModelsService } from "../services/embedding-models.service";
+import { retrievalService } from "../services/retrieval.service";
+import { recapService, RECAP_MODES, type RecapMode } from "../services/recap.service";
+import { glossaryService } from "../services/glossary.service";
+import { progressService } from "../services/progress.service";
+import {
+  authenticateUser,
+  optionalAuth,
+  requireAdmin,
+} from "../middleware/auth.middleware";
+import { requireQuota } from "../middleware/quota.middleware";
 import Joi from "joi";
 
 const router = Router();
@@ -24,6 +35,29 @@ const updateTitleSchema = Joi.object({
   coverImage: Joi.string().uri().optional(),
 }).min(1);
 
+const retrievalSettingsSchema = Joi.object({
+  vector_weight: Joi.number().min(0).optional(),
+  lexical_weight: Joi.number().min(0).optional(),
+  rrf_k: Joi.number().integer().min(1).optional(),
+}).min(1);
+
+// Both or neither; neither means the configured embedding provider
+const embeddingMigrationSchema = Joi.object({
+  embedding_model: Joi.string().max(200).optional(),
+  embedding_dimension: Joi.number().integer().min(1).max(8192).optional(),
+}).and("embedding_model", "embedding_dimension");
+
+const recapQuerySchema = Joi.object({
+  mode: Joi.string().valid(...RECAP_MODES).optional(),
+  count: Joi.number().integer().min(1).max(50).optional(),
+});
+
+const glossaryQuerySchema = Joi.object({
+  upTo: Joi.number().integer().min(1).optional(),
+  // The reader knowingly looks beyond their saved progress
+  ask_ahead: Joi.boolean().optional(),
+});
+
 const searchSchema = Joi.object({
   q: Joi.string().min(1).required(),
 });
@@ -263,4 +297,313 @@ router.delete(
   }
 );
 
+// GET /api/titles/:titleId/recap - "Story so far" up to the reader's current chapter
+// ?mode=last_chapters&count=3 or ?mode=since_last_session narrow the recap
+router.get(
+  "/:titleId/recap",
+  authenticateUser,
+  requireQuota,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: paramError } = titleIdSchema.validate(req.params);
+      if (paramError) {
+        return res.status(400).json({
+          success: false,
+          error: paramError.details[0].message,
+        });
+      }
+
+      const { error: queryError } = recapQuerySchema.validate(req.query);
+      if (queryError) {
+        return res.status(400).json({
+          success: false,
+          error: queryError.details[0].message,
+        });
+      }
+
+      const user = (req as any).user;
+      const mode = (req.query.mode as RecapMode) || "full";
+      const count = parseInt(req.query.count as string) || undefined;
+      const result = await recapService.getRecap(user.id, req.params.titleId, mode, count, (req as any).usage || null);
+      if (!result.success || !result.data) {
+        return res.status(400).json(result);
+      }
+      // 202 while chapters are left for later requests to summarize
+      return res.status(result.data.pending_chapters > 0 ? 202 : 200).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/titles/:titleId/glossary - Characters, places and factions as known
+// at chapter upTo (defaults to the signed-in reader's current chapter)
+router.get(
+  "/:titleId/glossary",
+  optionalAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: paramError } = titleIdSchema.validate(req.params);
+      if (paramError) {
+        return res.status(400).json({
+          success: false,
+          error: paramError.details[0].message,
+        });
+      }
+
+      const { error: queryError } = glossaryQuerySchema.validate(req.query);
+      if (queryError) {
+        return res.status(400).json({
+          success: false,
+          error: queryError.details[0].message,
+        });
+      }
+
+      let upTo = parseInt(req.query.upTo as string) || 0;
+      const user = (req as any).user;
+      if (!upTo && user) {
+        const progress = await progressService.getProgressByTitle(user.id, req.params.titleId);
+        upTo = progress.data?.current_chapter || 0;
+      } else if (upTo && user) {
+        // Checked against the reader's progress like a question's limit, so
+        // strict mode holds here too
+        const limitResult = await progressService.resolveChapterLimit(
+          user,
+          req.params.titleId,
+          upTo,
+          req.query.ask_ahead === "true"
+        );
+        if (!limitResult.success || !limitResult.data) {
+          return res.status(400).json(limitResult);
+        }
+        upTo = limitResult.data.chapter_limit;
+      }
+      if (!upTo) {
+        return res.status(400).json({
+          success: false,
+          error: "upTo is required when there is no reading progress for this title",
+        });
+      }
+
+      const result = await glossaryService.getGlossary(req.params.titleId, upTo);
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/titles/:titleId/glossary - Re-extract the glossary of changed chapters (admin only)
+router.post(
+  "/:titleId/glossary",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = titleIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const result = await glossaryService.enqueueTitle(req.params.titleId);
+      return res.status(result.success ? 202 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/titles/:titleId/embeddings - Get embedding status of a title's chapters (admin only)
+router.get(
+  "/:titleId/embeddings",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = titleIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const result = await ingestionService.getTitleEmbeddingStatus(
+        req.params.titleId
+      );
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/titles/:titleId/embeddings - Re-embed every chapter of a title (admin only)
+router.post(
+  "/:titleId/embeddings",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = titleIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const result = await ingestionService.reembedTitle(req.params.titleId);
+      return res.status(result.success ? 202 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/titles/:titleId/embeddings/migrations - List embedding model migrations of a title (admin only)
+router.get(
+  "/:titleId/embeddings/migrations",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = titleIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const result = await embeddingModelsService.getMigrations(req.params.titleId);
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// POST /api/titles/:titleId/embeddings/migrations - Re-embed a title into another model and cut over when done (admin only)
+router.post(
+  "/:titleId/embeddings/migrations",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: paramError } = titleIdSchema.validate(req.params);
+      if (paramError) {
+        return res.status(400).json({
+          success: false,
+          error: paramError.details[0].message,
+        });
+      }
+
+      const { error: bodyError } = embeddingMigrationSchema.validate(req.body);
+      if (bodyError) {
+        return res.status(400).json({
+          success: false,
+          error: bodyError.details[0].message,
+        });
+      }
+
+      const { embedding_model, embedding_dimension } = req.body;
+      const result = await embeddingModelsService.startMigration(
+        req.params.titleId,
+        embedding_model ? { modelId: embedding_model, dimension: embedding_dimension } : undefined
+      );
+      return res.status(result.success ? 202 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// GET /api/titles/:titleId/retrieval-settings - Get hybrid retrieval weights (admin only)
+router.get(
+  "/:titleId/retrieval-settings",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: validationError } = titleIdSchema.validate(req.params);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.details[0].message,
+        });
+      }
+
+      const settings = await retrievalService.getSettings(req.params.titleId);
+      return res.status(200).json({ success: true, data: settings });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
+// PUT /api/titles/:titleId/retrieval-settings - Tune hybrid retrieval weights (admin only)
+router.put(
+  "/:titleId/retrieval-settings",
+  authenticateUser,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { error: paramError } = titleIdSchema.validate(req.params);
+      if (paramError) {
+        return res.status(400).json({
+          success: false,
+          error: paramError.details[0].message,
+        });
+      }
+
+      const { error: bodyError } = retrievalSettingsSchema.validate(req.body);
+      if (bodyError) {
+        return res.status(400).json({
+          success: false,
+          error: bodyError.details[0].message,
+        });
+      }
+
+      const result = await retrievalService.updateSettings(
+        req.params.titleId,
+        req.body
+      );
+      return res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  }
+);
+
 export { router as titlesRouter };
@@ -2,19 +2,36 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import app from './app';
+import { jobsService } from './services/jobs.service';
+import { answerQueueService } from './services/answer-queue.service';
+import { glossaryService } from './services/glossary.service';
+import { embeddingModelsService } from './services/embedding-models.service';
+import { ingestionService } from './services/ingestion.service';
+import { loadPlans } from './services/usage.service';
 
 const PORT = process.env.PORT || 3000;
 
+// Refuse to start with quota plans that can't be enforced
+loadPlans();
+
 const server = app.listen(PORT, () => {
   console.log(`🚀 SpoilerShield API server running on port ${PORT}`);
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`📋 Health check: /health`);
 });
 
+// Background workers
+answerQueueService.register();
+ingestionService.register();
+glossaryService.register();
+embeddingModelsService.register();
+jobsService.start();
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received. Shutting down gracefully...');
-  server.close(() => {
+  server.close(async () => {
+    await jobsService.stop();
     console.log('Process terminated');
     process.exit(0);
   });
@@ -22,7 +39,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received. Shutting down gracefully...');
-  server.close(() => {
+  server.close(async () => {
+    await jobsService.stop();
     console.log('Process terminated');
     process.exit(0);
   });
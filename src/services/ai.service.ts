@@ -1,16 +1,234 @@
-import { OpenAI } from "openai";
-import { supabase } from "../lib/supabase";
 import { questionsService } from "./questions.service";
-import { chaptersService } from "./chapters.service";
-import { getEmbedding, cosineSimilarity } from "../utils/embedding.util";
+import {
+  retrievalService,
+  type RetrievalExplanation,
+  type RetrievedPassage,
+} from "./retrieval.service";
+import { spoilerGuardService } from "./spoiler-guard.service";
+import { threadsService } from "./threads.service";
+import { answerCacheService } from "./answer-cache.service";
+import { embeddingModelsService } from "./embedding-models.service";
+import { completionUsage, sumUsage, usageService, type CompletionUsage } from "./usage.service";
+import { promptTemplatesService } from "./prompt-templates.service";
+import { maxQuestionLength, moderationService, type ScreeningResult } from "./moderation.service";
+import {
+  getLLMProvider,
+  type ChatCompletionRequest,
+  type ChatMessage,
+  type LLMProvider,
+} from "../providers/llm/llm.provider";
+import { buildCitations } from "../utils/citations.util";
+import { getEmbedding, type ModelVector } from "../utils/embedding.util";
+import { assembleContext, type AssembledContext, type ContextReport } from "../utils/context-builder.util";
+import { renderTemplate } from "../utils/prompt-template.util";
+import { isUpstreamOutage } from "../utils/resilience.util";
+import { contextWindow, countTokens } from "../utils/tokens.util";
+import type {
+  Citation,
+  Question,
+  QuestionStatus,
+  SpoilerAction,
+} from "../types/database.type";
+
+// Passages retrieved per question; the token budget decides how many are used
+const MAX_CANDIDATE_PASSAGES = 24;
+const MAX_ANSWER_TOKENS = 1000;
+// Earlier question/answer pairs from the thread sent along as history
+const MAX_HISTORY_TURNS = 6;
+
+export interface AnswerOptions {
+  // Admin-only overrides of the configured LLM provider and model
+  provider?: string;
+  model?: string;
+  // Status to leave the question in if answering fails; the job worker
+  // passes "queued" while retries remain
+  failureStatus?: QuestionStatus;
+  // Always generate a fresh answer, e.g. when the reader asked to regenerate
+  skipCache?: boolean;
+  // User whose quota was checked for this request; defaults to the asker
+  chargeUserId?: string;
+}
+
+export interface GeneratedAnswer {
+  answer: string | null; // null when the answer was blocked as a spoiler or the question refused
+  citations: Citation[];
+  status: QuestionStatus;
+  // Anything other than "none" means the final answer differs from what
+  // was streamed, so clients should replace the streamed text
+  spoilerAction: SpoilerAction;
+  // null when the answer was reused from the answer cache
+  context: ContextReport | null;
+  reused: boolean;
+}
+
+export interface PromptPreview {
+  template: { name: string; version: number };
+  provider: string;
+  model: string;
+  messages: ChatMessage[];
+  context: ContextReport;
+}
+
+export interface RetrievalReport extends RetrievalExplanation {
+  template: { name: string; version: number };
+  model: string;
+  // The passages, in prompt order, that the answer would be generated from
+  context: ContextReport & { text: string };
+}
+
+// The parts of a question that retrieval depends on
+type QuestionInput = Pick<Question, "title_id" | "chapter_limit" | "question_text">;
+
+interface ThreadContext {
+  historyMessages: ChatMessage[];
+  searchQuery: string;
+  isFollowUp: boolean;
+}
+
+interface PreparedPrompt {
+  llm: LLMProvider;
+  model: string;
+  template: { name: string; version: number };
+  prompt: string;
+  messages: ChatMessage[];
+  context: AssembledContext;
+}
+
+// Earlier turns of the thread give follow-ups like "why did he leave?"
+// something to refer back to
+const loadThreadContext = async (question: Question): Promise<ThreadContext> => {
+  const questionText = question.question_text || "";
+  const history = await threadsService.getHistory(question, MAX_HISTORY_TURNS);
+  const historyMessages: ChatMessage[] = history.flatMap((turn) => [
+    { role: "user" as const, content: turn.question_text || "" },
+    { role: "assistant" as const, content: turn.answer_text || "" },
+  ]);
+  const parent = history.find((turn) => turn.id === question.parent_question_id);
+
+  return {
+    historyMessages,
+    searchQuery: parent?.question_text ? `${parent.question_text}\n${questionText}` : questionText,
+    isFollowUp: history.length > 0 || Boolean(question.parent_question_id),
+  };
+};
 
-const openai = new OpenAI({
-  apiKey: process.env.GROQ_API_KEY!,
-  baseURL: "https://api.groq.com/openai/v1",
+// Ad-hoc questions have no thread to draw on
+const standaloneThread = (question: QuestionInput): ThreadContext => ({
+  historyMessages: [],
+  searchQuery: question.question_text || "",
+  isFollowUp: false,
 });
 
+// Fit retrieved passages into the model's budget and render the answer
+// template around them
+const fitPrompt = async (
+  question: QuestionInput,
+  relevantPassages: RetrievedPassage[],
+  thread: ThreadContext,
+  options: { provider?: string; model?: string; templateVersion?: number }
+): Promise<PreparedPrompt> => {
+  const { chapter_limit } = question;
+  const questionText = question.question_text || "";
+
+  const llm = getLLMProvider(options.provider);
+  const model = options.model || llm.defaultModel;
+  const template = await promptTemplatesService.getTemplate("answer", options.templateVersion);
+  const variables = { question: questionText, chapter_limit: chapter_limit || "limit" };
+
+  // Whatever the model's window leaves after the rest of the prompt and
+  // the answer, capped by the configured budget
+  const promptOverhead = countTokens(
+    renderTemplate(template.template, { ...variables, context: "" }) +
+      thread.historyMessages.map((m) => m.content).join("\n"),
+    model
+  );
+  const contextBudget = Math.max(
+    0,
+    Math.min(
+      parseInt(process.env.CONTEXT_TOKEN_BUDGET || "6000"),
+      contextWindow(model) - promptOverhead - MAX_ANSWER_TOKENS
+    )
+  );
+
+  const context = assembleContext(relevantPassages, contextBudget, model);
+
+  const chapterCount = new Set(context.passages.map((p) => p.chapter_id)).size;
+  console.log(
+    `📝 Context built with ${context.report.used_tokens}/${contextBudget} tokens from ${context.passages.length} passages across ${chapterCount} chapters` +
+      ` (${context.report.trimmed.length} trimmed, ${context.report.dropped.length} dropped)`
+  );
+
+  const prompt = renderTemplate(template.template, { ...variables, context: context.text });
+
+  return {
+    llm,
+    model,
+    template: { name: template.name, version: template.version },
+    prompt,
+    messages: [...thread.historyMessages, { role: "user", content: prompt }],
+    context,
+  };
+};
+
+const preparePrompt = async (
+  question: QuestionInput,
+  thread: ThreadContext,
+  options: { provider?: string; model?: string; templateVersion?: number },
+  questionEmbedding?: ModelVector
+): Promise<PreparedPrompt> => {
+  console.log("📚 Searching passages for title:", question.title_id);
+  const relevantPassages = await retrievalService.searchPassages(
+    question.title_id,
+    thread.searchQuery,
+    question.chapter_limit,
+    MAX_CANDIDATE_PASSAGES,
+    questionEmbedding
+  );
+
+  if (relevantPassages.length === 0) {
+    throw new Error("No relevant passages found for the question.");
+  }
+
+  console.log("🧠 Top relevant passages:");
+  relevantPassages.forEach((p) =>
+    console.log(`- ${p.name} (order: ${p.order}, chunk: ${p.chunk_index}, score: ${p.score.toFixed(4)}, similarity: ${p.similarity.toFixed(3)}, text: ${p.lexical_score.toFixed(2)})`)
+  );
+
+  return fitPrompt(question, relevantPassages, thread, options);
+};
+
+// Every step of retrieval for a question, without calling the model
+const explainRetrieval = async (question: QuestionInput, thread: ThreadContext): Promise<RetrievalReport> => {
+  const explanation = await retrievalService.explainSearch(
+    question.title_id,
+    thread.searchQuery,
+    question.chapter_limit,
+    MAX_CANDIDATE_PASSAGES
+  );
+
+  const { model, template, context } = await fitPrompt(
+    question,
+    explanation.candidates.slice(0, MAX_CANDIDATE_PASSAGES),
+    thread,
+    {}
+  );
+  return { ...explanation, template, model, context: { ...context.report, text: context.text } };
+};
+
 export const aiService = {
-  generateAnswer: async (questionId: string) => {
+  // Pass onToken to stream the completion as it is generated; the full
+  // answer is saved once the stream finishes either way. Streamed text is
+  // released sentence by sentence after passing the spoiler check.
+  generateAnswer: async (
+    questionId: string,
+    options: AnswerOptions = {},
+    onToken?: (token: string) => void
+  ): Promise<GeneratedAnswer> => {
+    // Completions made for this answer, charged to the asker at the end
+    // whether or not the answer survives the spoiler check
+    const usages: CompletionUsage[] = [];
+    let charge: { userId: string; titleId: string; provider: string; model: string } | null = null;
+
     try {
       console.log("🔍 Fetching question:", questionId);
       const questionResponse = await questionsService.getQuestionById(questionId);
@@ -20,179 +238,301 @@ export const aiService = {
         throw new Error(`Question not found: ${questionResponse.error}`);
       }
 
-      const { title_id, chapter_limit, question_text } = questionResponse.data;
+      await questionsService.updateQuestionStatus(questionId, "processing");
+
+      const question = questionResponse.data;
+      const { title_id, chapter_limit, question_text } = question;
       console.log("✅ Question found:", {
         title_id,
         chapter_limit,
         question_text,
       });
 
-      console.log("📚 Fetching chapter embeddings for title:", title_id);
-
-      // Fetch chapter embeddings
-      const { data: embeddingsData, error: embeddingsError } = await supabase
-        .from("chapter_embeddings")
-        .select(`
-          embedding,
-          chapters!inner(
-            id,
-            name,
-            order,
-            content,
-            title_id
-          )
-        `)
-        .eq("chapters.title_id", title_id);
-
-      if (embeddingsError || !embeddingsData || embeddingsData.length === 0) {
-        console.error("❌ Chapter embeddings fetch failed:", embeddingsError);
-        throw new Error(`Failed to fetch chapter embeddings: ${embeddingsError?.message}`);
-      }
-
-      // Debug: Log the actual structure
-      console.log("🔍 DEBUG: First item structure:", JSON.stringify(embeddingsData[0], null, 2));
-
-      const chaptersWithEmbeddings: Array<{
-        chapter: any;
-        embedding: number[];
-      }> = [];
-
-      embeddingsData.forEach((item: any) => {
-        let parsedEmbedding: number[];
-
-        try {
-          parsedEmbedding =
-            typeof item.embedding === "string"
-              ? JSON.parse(item.embedding)
-              : item.embedding;
-        } catch (err) {
-          console.error("❌ Failed to parse embedding:", item.embedding);
-          throw new Error("Invalid embedding format in DB");
-        }
-
-        const chapter = Array.isArray(item.chapters) ? item.chapters[0] : item.chapters;
-
-        if (chapter?.order <= (chapter_limit || Infinity)) {
-          chaptersWithEmbeddings.push({
-            chapter,
-            embedding: parsedEmbedding,
-          });
-        }
-      });
-
-      if (chaptersWithEmbeddings.length === 0) {
-        throw new Error(`No chapters available within chapter limit: ${chapter_limit}`);
-      }
-
-      console.log(`📚 Found ${chaptersWithEmbeddings.length} chapters within limit`);
-
-      console.log("📐 Getting embedding for question...");
       if (!question_text) {
         throw new Error("Question text is null or empty");
       }
 
-      const questionEmbedding = await getEmbedding(question_text);
-
-      const chaptersWithScores = chaptersWithEmbeddings.map((item) => {
+      // Questions queued while the classifier was down, or created before
+      // screening existed, are checked here before any model sees them.
+      // Once passed, retries and regenerations of the same text skip it.
+      const screening: ScreeningResult = question.screened_at
+        ? { allowed: true, reason: null, detail: null }
+        : await moderationService.screenQuestion(question_text, {
+            userId: options.chargeUserId || question.user_id,
+            titleId: title_id,
+            questionId,
+          });
+      if (!question.screened_at && screening.allowed) {
+        await questionsService.markScreened(questionId);
+      }
+      if (!screening.allowed) {
+        console.warn(`🚫 Question ${questionId} refused (${screening.reason}): ${screening.detail}`);
+        await questionsService.markRefused(
+          questionId,
+          screening.reason!,
+          screening.detail,
+          // No need to keep more of an over-long question than the limit
+          screening.reason === "too_long" ? question_text.slice(0, maxQuestionLength()) : undefined
+        );
         return {
-          id: item.chapter.id,
-          name: item.chapter.name,
-          order: item.chapter.order,
-          content: item.chapter.content,
-          title_id: item.chapter.title_id,
-          similarity: cosineSimilarity(questionEmbedding, item.embedding),
+          answer: null,
+          citations: [],
+          status: "refused",
+          spoilerAction: "none",
+          context: null,
+          reused: false,
         };
-      });
-
-      const relevantChapters = chaptersWithScores
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, 10);
+      }
 
-      if (relevantChapters.length === 0) {
-        throw new Error("No relevant chapters found based on semantic similarity.");
+      const thread = await loadThreadContext(question);
+
+      // Stand-alone questions asked at the same chapter limit can share an
+      // answer. Follow-ups depend on their history and admin overrides are
+      // usually comparing models, so neither reads nor fills the cache.
+      const cacheable =
+        answerCacheService.isEnabled() &&
+        chapter_limit !== null &&
+        !thread.isFollowUp &&
+        !options.provider &&
+        !options.model;
+
+      let questionEmbedding: ModelVector | undefined;
+      if (cacheable) {
+        const embeddingModel = await embeddingModelsService.getActiveModel(title_id);
+        questionEmbedding = {
+          modelId: embeddingModel.modelId,
+          vector: await getEmbedding(question_text, embeddingModel),
+        };
+        const cached = options.skipCache
+          ? null
+          : await answerCacheService.lookup(
+              title_id,
+              chapter_limit,
+              questionEmbedding.vector,
+              questionEmbedding.modelId
+            );
+
+        if (cached) {
+          console.log(`♻️ Reusing cached answer (similarity ${cached.similarity.toFixed(3)}) to: ${cached.question_text}`);
+          // Still a request, and the question was embedded to find it
+          const embeddingTokens = countTokens(question_text, embeddingModel.modelId);
+          charge = {
+            userId: options.chargeUserId || question.user_id,
+            titleId: title_id,
+            provider: embeddingModel.modelId.split("/")[0],
+            model: embeddingModel.modelId,
+          };
+          usages.push({
+            completions: 0,
+            promptTokens: embeddingTokens,
+            completionTokens: 0,
+            totalTokens: embeddingTokens,
+            estimated: true,
+          });
+          onToken?.(cached.answer_text);
+          await questionsService.updateQuestionAnswer(
+            questionId,
+            cached.answer_text,
+            cached.citations,
+            cached.source_question_id
+          );
+          return {
+            answer: cached.answer_text,
+            citations: cached.citations || [],
+            status: "answered",
+            spoilerAction: "none",
+            context: null,
+            reused: true,
+          };
+        }
       }
 
-      console.log("🧠 Top relevant chapters:");
-      relevantChapters.forEach((c) =>
-        console.log(`- ${c.name} (order: ${c.order}, similarity: ${c.similarity.toFixed(3)})`)
+      const { llm, model, template, prompt, messages, context } = await preparePrompt(
+        question,
+        thread,
+        options,
+        questionEmbedding
       );
+      const contextPassages = context.passages;
+      charge = { userId: options.chargeUserId || question.user_id, titleId: title_id, provider: llm.name, model };
+
+      await questionsService.setPromptTemplate(questionId, template.name, template.version);
+
+      const spoilerIndex = await spoilerGuardService.getIndex(title_id);
+
+      // While streaming, release text a sentence at a time and only once it
+      // has passed the spoiler check; stop releasing at the first leak
+      let streamed = "";
+      let pending = "";
+      let streamHalted = false;
+      const releaseIfSafe = (text: string) => {
+        if (streamHalted || !onToken || !text) return;
+        if (spoilerGuardService.check(spoilerIndex, chapter_limit, streamed + text).leaked) {
+          streamHalted = true;
+          return;
+        }
+        streamed += text;
+        onToken(text);
+      };
+      const guardedOnToken = (token: string) => {
+        pending += token;
+        const sentenceEnd = pending.match(/^[\s\S]*[.!?\n]\s/);
+        if (sentenceEnd) {
+          pending = pending.slice(sentenceEnd[0].length);
+          releaseIfSafe(sentenceEnd[0]);
+        }
+      };
+
+      const complete = async (messages: ChatMessage[], stream: boolean) => {
+        console.log(`🤖 Calling ${llm.name} (${model})...`);
+        const completionRequest: ChatCompletionRequest = {
+          model,
+          messages,
+          temperature: 0.3,
+          maxTokens: MAX_ANSWER_TOKENS,
+        };
+        const response = stream
+          ? await llm.stream(completionRequest, guardedOnToken)
+          : await llm.complete(completionRequest);
+        usages.push(completionUsage(completionRequest, response));
 
-      const contextText = relevantChapters
-        .sort((a, b) => a.order - b.order)
-        .map((chapter) => {
-          const chapterName = chapter.name || `Chapter ${chapter.order}`;
-          const chapterContent = chapter.content || "";
-          return `Chapter ${chapter.order}: ${chapterName}\n${chapterContent}`;
-        })
-        .join("\n\n");
+        if (!response.content) {
+          throw new Error("No answer generated by AI");
+        }
+        return response.content;
+      };
 
-      console.log(`📝 Context built with ${contextText.length} characters from ${relevantChapters.length} chapters`);
+      let answer = await complete(messages, Boolean(onToken));
+      releaseIfSafe(pending);
 
-      const prompt = `
-You are a helpful assistant. Use ONLY the information provided in the chapters below to answer the question. DO NOT use prior knowledge or guess. If the answer isn't found in the content, reply: "I could not find the answer in the provided chapters."
+      // Verify the model did not reveal anything from beyond the chapter limit
+      const spoilerCheck = spoilerGuardService.check(spoilerIndex, chapter_limit, answer);
+      let spoilerAction: SpoilerAction = "none";
 
-### Available Chapters (selected based on relevance):
-${contextText}
+      if (spoilerCheck.leaked) {
+        const policy = spoilerGuardService.getPolicy();
+        console.warn(`⚠️ Spoiler leak detected (policy: ${policy}):`, spoilerCheck);
 
-### Question:
-${question_text}
+        if (policy === "regenerate") {
+          const forbidden = spoilerCheck.entities.map((entity) => entity.name);
+          const retryNote = await promptTemplatesService.render("spoiler_retry", {
+            chapter_limit: chapter_limit || "limit",
+            avoid: forbidden.length > 0 ? ` and do not mention: ${forbidden.join(", ")}` : "",
+          });
+          const retryAnswer = await complete(
+            [...thread.historyMessages, { role: "user", content: prompt + retryNote.text }],
+            false
+          );
+          const retryCheck = spoilerGuardService.check(spoilerIndex, chapter_limit, retryAnswer);
+
+          if (retryCheck.leaked) {
+            spoilerAction = "blocked";
+          } else {
+            answer = retryAnswer;
+            spoilerAction = "regenerated";
+          }
+        } else if (policy === "redact") {
+          answer = spoilerGuardService.redact(answer, spoilerCheck);
+          spoilerAction = "redacted";
+        } else {
+          spoilerAction = "blocked";
+        }
 
-### Notes:
-- Avoid spoilers from content beyond Chapter ${chapter_limit || "limit"}
-- Stay factual and concise.
-- Do NOT fabricate or assume details not present in the text.
-`;
+        await spoilerGuardService.recordCheck(questionId, chapter_limit, spoilerCheck, spoilerAction);
+      }
 
-      await questionsService.updateQuestionStatus(questionId, "pending");
+      if (spoilerAction === "blocked") {
+        console.warn("🛑 Answer blocked to avoid spoilers");
+        await questionsService.markSpoilerBlocked(questionId);
+        return {
+          answer: null,
+          citations: [],
+          status: "blocked_spoiler",
+          spoilerAction,
+          context: context.report,
+          reused: false,
+        };
+      }
 
-      console.log("🤖 Calling Groq API...");
-      const response = await openai.chat.completions.create({
-        model: "meta-llama/llama-4-scout-17b-16e-instruct",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.3,
-        max_tokens: 1000,
-      });
+      const citations = buildCitations(contextPassages, answer);
 
-      const answer = response.choices[0]?.message?.content;
-      if (!answer) {
-        throw new Error("No answer generated by AI");
-      }
+      console.log(`✅ Answer generated successfully with ${citations.length} citations`);
 
-      console.log("✅ Answer generated successfully");
+      // Saves the answer and marks the question answered in one update
+      await questionsService.updateQuestionAnswer(questionId, answer, citations);
 
-      await questionsService.updateQuestionAnswer(questionId, answer);
-      await questionsService.updateQuestionStatus(questionId, "answered");
+      if (cacheable && questionEmbedding && chapter_limit !== null) {
+        await answerCacheService.store({
+          titleId: title_id,
+          chapterLimit: chapter_limit,
+          questionText: question_text,
+          questionEmbedding: questionEmbedding.vector,
+          embeddingModel: questionEmbedding.modelId,
+          answerText: answer,
+          citations,
+          sourceQuestionId: questionId,
+        });
+      }
 
-      return answer;
+      return { answer, citations, status: "answered", spoilerAction, context: context.report, reused: false };
     } catch (error) {
       console.error("❌ AI service error:", error);
-      await questionsService.updateQuestionStatus(questionId, "failed");
+      await questionsService.updateQuestionStatus(
+        questionId,
+        options.failureStatus || "failed",
+        isUpstreamOutage(error) ? "upstream_unavailable" : "error"
+      );
       throw error;
+    } finally {
+      if (charge) {
+        await usageService.record({ ...charge, kind: "answer", questionId, usage: sumUsage(usages) });
+      }
     }
   },
 
-  testChapterRetrieval: async (titleId: string) => {
-    try {
-      console.log("🧪 Testing chapter retrieval for title:", titleId);
-
-      const response = await chaptersService.getChaptersByTitle(titleId);
-
-      console.log("Test results:", {
-        success: response.success,
-        error: response.error,
-        dataCount: response.data?.length || 0,
-        chapters: response.data?.map((c) => ({
-          id: c.id,
-          order: c.order,
-          name: c.name,
-          contentLength: c.content?.length || 0,
-        })),
-      });
+  // Render the exact messages a question would be answered with, without
+  // calling the model or touching the question. Defaults to the active
+  // template version.
+  previewPrompt: async (
+    questionId: string,
+    options: { provider?: string; model?: string; templateVersion?: number } = {}
+  ): Promise<PromptPreview> => {
+    const questionResponse = await questionsService.getQuestionById(questionId);
+    if (!questionResponse.success || !questionResponse.data) {
+      throw new Error(`Question not found: ${questionResponse.error}`);
+    }
+    if (!questionResponse.data.question_text) {
+      throw new Error("Question text is null or empty");
+    }
 
-      return response;
-    } catch (error) {
-      console.error("❌ Test failed:", error);
-      throw error;
+    const thread = await loadThreadContext(questionResponse.data);
+    const { llm, model, template, messages, context } = await preparePrompt(
+      questionResponse.data,
+      thread,
+      options
+    );
+
+    return { template, provider: llm.name, model, messages, context: context.report };
+  },
+
+  // Retrieval report for a stored question, including its thread history
+  explainQuestionRetrieval: async (questionId: string): Promise<RetrievalReport> => {
+    const questionResponse = await questionsService.getQuestionById(questionId);
+    if (!questionResponse.success || !questionResponse.data) {
+      throw new Error(`Question not found: ${questionResponse.error}`);
     }
+    if (!questionResponse.data.question_text) {
+      throw new Error("Question text is null or empty");
+    }
+
+    const thread = await loadThreadContext(questionResponse.data);
+    return explainRetrieval(questionResponse.data, thread);
   },
+
+  // Retrieval report for an ad-hoc question that is not stored anywhere
+  dryRunRetrieval: async (question: {
+    title_id: string;
+    question_text: string;
+    chapter_limit: number | null;
+  }): Promise<RetrievalReport> => explainRetrieval(question, standaloneThread(question)),
 };
@@ -0,0 +1,111 @@
+import { supabase } from '../lib/supabase';
+import type { Citation } from '../types/database.type';
+
+export interface CachedAnswer {
+  id: string;
+  question_text: string;
+  answer_text: string;
+  citations: Citation[] | null;
+  source_question_id: string | null;
+  similarity: number;
+}
+
+// How close a new question's embedding must be to a cached one to reuse
+// its answer; high enough that paraphrases hit but different questions don't
+const minSimilarity = () => parseFloat(process.env.ANSWER_CACHE_SIMILARITY || '0.95');
+
+export const answerCacheService = {
+  // Disabled with ANSWER_CACHE=off
+  isEnabled: (): boolean => process.env.ANSWER_CACHE !== 'off',
+
+  // Closest cached answer for the same title and chapter limit, or null.
+  // embeddingModel is the model questionEmbedding was made with.
+  lookup: async (
+    titleId: string,
+    chapterLimit: number,
+    questionEmbedding: number[],
+    embeddingModel: string
+  ): Promise<CachedAnswer | null> => {
+    const { data, error } = await supabase.rpc('match_answer_cache', {
+      p_title_id: titleId,
+      p_chapter_limit: chapterLimit,
+      p_embedding_model: embeddingModel,
+      query_embedding: questionEmbedding,
+      min_similarity: minSimilarity(),
+    });
+
+    if (error) {
+      console.error('Answer cache lookup error:', error.message);
+      return null;
+    }
+
+    const [match] = (data || []) as CachedAnswer[];
+    if (!match) return null;
+
+    const { error: hitError } = await supabase.rpc('record_answer_cache_hit', { p_id: match.id });
+    if (hitError) {
+      console.error(`Failed to record hit on answer cache entry ${match.id}:`, hitError.message);
+    }
+
+    return match;
+  },
+
+  store: async (entry: {
+    titleId: string;
+    chapterLimit: number;
+    questionText: string;
+    questionEmbedding: number[];
+    embeddingModel: string;
+    answerText: string;
+    citations: Citation[];
+    sourceQuestionId: string;
+  }): Promise<void> => {
+    const { error } = await supabase
+      .from('answer_cache')
+      .insert({
+        title_id: entry.titleId,
+        chapter_limit: entry.chapterLimit,
+        question_text: entry.questionText,
+        question_embedding: entry.questionEmbedding,
+        embedding_model: entry.embeddingModel,
+        answer_text: entry.answerText,
+        citations: entry.citations,
+        source_question_id: entry.sourceQuestionId,
+      });
+
+    if (error) {
+      console.error(`Failed to cache answer for question ${entry.sourceQuestionId}:`, error.message);
+    }
+  },
+
+  // Stop serving an answer once it has been flagged or regenerated
+  invalidateSource: async (questionId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('answer_cache')
+      .delete()
+      .eq('source_question_id', questionId);
+
+    if (error) {
+      console.error(`Failed to invalidate cached answer of question ${questionId}:`, error.message);
+    }
+  },
+
+  // Drop cached answers that could have drawn on a chapter at or after
+  // chapterOrder; answers limited to earlier chapters never saw it. Without
+  // an order every cached answer for the title goes.
+  invalidateFromChapter: async (titleId: string, chapterOrder: number | null): Promise<void> => {
+    let query = supabase
+      .from('answer_cache')
+      .delete()
+      .eq('title_id', titleId);
+
+    if (chapterOrder !== null) {
+      query = query.gte('chapter_limit', chapterOrder);
+    }
+
+    const { error } = await query;
+    if (error) {
+      console.error(`Failed to invalidate answer cache for title ${titleId}:`, error.message);
+    }
+  },
+};
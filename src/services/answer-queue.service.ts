@@ -0,0 +1,58 @@
+import { jobsService, type JobHandler } from './jobs.service';
+import { questionsService } from './questions.service';
+import { aiService } from './ai.service';
+import { usageService } from './usage.service';
+import type { ApiResponse, Job } from '../types/database.type';
+
+export const ANSWER_QUESTION_JOB = 'answer_question';
+
+// Worker side: answer one queued question. While attempts remain, a failure
+// puts the question back to "queued" rather than "failed".
+//
+// The quota was checked when the question was queued, but usage is only
+// recorded once an answer is done, so a burst of questions would all have
+// passed. Checking again here, after earlier jobs have recorded theirs,
+// keeps the overrun to the jobs running at the same time.
+const answerQuestionHandler: JobHandler = async (job) => {
+  const { questionId, skipCache } = job.payload;
+
+  const questionResult = await questionsService.getQuestionById(questionId);
+  if (!questionResult.success || !questionResult.data) {
+    throw new Error(`Question not found: ${questionResult.error}`);
+  }
+
+  const exceeded = await usageService.exceededFor(questionResult.data.user_id);
+  if (exceeded) {
+    console.warn(`🚫 Question ${questionId} not answered: ${exceeded.window} ${exceeded.limit} quota used up`);
+    await questionsService.updateQuestionStatus(questionId, 'failed', 'quota_exceeded');
+    return;
+  }
+
+  await aiService.generateAnswer(questionId, {
+    failureStatus: job.attempts < job.max_attempts ? 'queued' : 'failed',
+    skipCache: Boolean(skipCache),
+  });
+};
+
+export const answerQueueService = {
+  // Register the answer handler with the job worker
+  register: (): void => {
+    jobsService.register(ANSWER_QUESTION_JOB, answerQuestionHandler);
+  },
+
+  // Queue a question for answering and mark it as queued. Regenerations
+  // pass skipCache so the reader gets a fresh completion.
+  enqueueQuestion: async (
+    questionId: string,
+    options: { skipCache?: boolean } = {}
+  ): Promise<ApiResponse<Job>> => {
+    const result = await jobsService.enqueue(ANSWER_QUESTION_JOB, {
+      questionId,
+      ...(options.skipCache && { skipCache: true }),
+    });
+
+    await questionsService.updateQuestionStatus(questionId, result.success ? 'queued' : 'failed');
+
+    return result;
+  },
+};
@@ -1,5 +1,6 @@
 import { supabaseClient } from '../lib/supabase';
 import type { ApiResponse } from '../types/database.type';
+import type { StrictChapterLimitMode } from './progress.service';
 
 export const authService = {
   // Sign up new user
@@ -121,7 +122,10 @@ export const authService = {
   },
 
   // Update user profile
-  updateProfile: async (accessToken: string, updates: { name?: string; email?: string }): Promise<ApiResponse> => {
+  updateProfile: async (
+    accessToken: string,
+    updates: { name?: string; email?: string; strict_chapter_limit?: StrictChapterLimitMode }
+  ): Promise<ApiResponse> => {
     try {
       // Set the session for this operation
       await supabaseClient.auth.setSession({
@@ -134,6 +138,7 @@ export const authService = {
         data: {
           name: updates.name,
           full_name: updates.name,
+          strict_chapter_limit: updates.strict_chapter_limit,
         },
       });
 
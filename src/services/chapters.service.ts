@@ -1,4 +1,8 @@
 import { supabase } from '../lib/supabase';
+import { ingestionService } from './ingestion.service';
+import { spoilerGuardService } from './spoiler-guard.service';
+import { answerCacheService } from './answer-cache.service';
+import { glossaryService } from './glossary.service';
 import type { Chapter, InsertChapter, ApiResponse } from '../types/database.type';
 
 export const chaptersService = {
@@ -116,6 +120,11 @@ export const chaptersService = {
         return { success: false, error: error.message };
       }
 
+      await ingestionService.enqueueChapter(data.id);
+      await glossaryService.enqueueChapter(data.id);
+      spoilerGuardService.invalidateTitle(data.title_id);
+      await answerCacheService.invalidateFromChapter(data.title_id, data.order);
+
       return { success: true, data, message: 'Chapter created successfully' };
     } catch (error) {
       console.error('Create chapter error:', error);
@@ -126,9 +135,15 @@ export const chaptersService = {
   // Update a chapter (admin function)
   updateChapter: async (chapterId: string, updates: Partial<Chapter>): Promise<ApiResponse<Chapter>> => {
     try {
+      const contentChanged = updates.content !== undefined;
+
       const { data, error } = await supabase
         .from('chapters')
-        .update(updates)
+        .update({
+          ...updates,
+          ...(contentChanged && { embedding_status: 'pending' as const }),
+          updated_at: new Date().toISOString(),
+        })
         .eq('id', chapterId)
         .select()
         .single();
@@ -137,6 +152,19 @@ export const chaptersService = {
         return { success: false, error: error.message };
       }
 
+      // Existing vectors describe the old text, so re-embed on content changes
+      if (contentChanged) {
+        await ingestionService.enqueueChapter(chapterId);
+        await glossaryService.enqueueChapter(chapterId);
+      }
+      spoilerGuardService.invalidateTitle(data.title_id);
+
+      // A reordered chapter may have moved below limits that never saw it
+      await answerCacheService.invalidateFromChapter(
+        data.title_id,
+        updates.order !== undefined ? null : data.order
+      );
+
       return { success: true, data, message: 'Chapter updated successfully' };
     } catch (error) {
       console.error('Update chapter error:', error);
@@ -0,0 +1,64 @@
+import { supabase } from '../lib/supabase';
+import type { Chapter, ChapterChunk, ApiResponse } from '../types/database.type';
+import { chunkText } from '../utils/chunking.util';
+import { getEmbeddings, getEmbeddingModel, type EmbeddingModel } from '../utils/embedding.util';
+
+export const chunksService = {
+  // Split a chapter into passages, embed each one and replace the stored
+  // chunks of that model (the configured one unless given). Chunks of other
+  // models are left alone so a title can be re-embedded while it is live.
+  indexChapter: async (
+    chapter: Chapter,
+    model: EmbeddingModel = getEmbeddingModel()
+  ): Promise<ApiResponse<ChapterChunk[]>> => {
+    try {
+      const passages = chunkText(chapter.content || '');
+
+      const embeddings = await getEmbeddings(passages.map((passage) => passage.content), model);
+      const { modelId, dimension } = model;
+
+      const rows = passages.map((passage, i) => ({
+        chapter_id: chapter.id,
+        chunk_index: passage.index,
+        content: passage.content,
+        start_offset: passage.start,
+        end_offset: passage.end,
+        embedding: embeddings[i],
+        embedding_model: modelId,
+        embedding_dimension: dimension,
+      }));
+
+      const { error: deleteError } = await supabase
+        .from('chapter_chunks')
+        .delete()
+        .eq('chapter_id', chapter.id)
+        .eq('embedding_model', modelId);
+
+      if (deleteError) {
+        return { success: false, error: deleteError.message };
+      }
+
+      if (rows.length === 0) {
+        return { success: true, data: [], message: 'Chapter has no content to index' };
+      }
+
+      const { data, error } = await supabase
+        .from('chapter_chunks')
+        .insert(rows)
+        .select();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return {
+        success: true,
+        data: data || [],
+        message: `Indexed ${rows.length} chunks`
+      };
+    } catch (error) {
+      console.error('Index chapter error:', error);
+      return { success: false, error: 'Failed to index chapter' };
+    }
+  },
+};
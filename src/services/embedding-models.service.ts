@@ -0,0 +1,300 @@
+import { supabase } from '../lib/supabase';
+import { chunksService } from './chunks.service';
+import { jobsService, JobLeaseLostError, type JobHandler } from './jobs.service';
+import { createEmbeddingProviderForModel } from '../providers/embedding/embedding.provider';
+import { getEmbeddingModel, type EmbeddingModel } from '../utils/embedding.util';
+import type { ApiResponse, Chapter, EmbeddingMigration } from '../types/database.type';
+
+export const REEMBED_TITLE_JOB = 'reembed_title';
+
+// PostgREST in-list of model ids, which contain "/" and "."
+const modelList = (models: EmbeddingModel[]) => `(${models.map((model) => `"${model.modelId}"`).join(',')})`;
+
+const updateMigration = async (migrationId: string, values: Partial<EmbeddingMigration>) => {
+  const { error } = await supabase
+    .from('embedding_migrations')
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq('id', migrationId);
+
+  if (error) {
+    console.error(`Failed to update embedding migration ${migrationId}:`, error.message);
+  }
+};
+
+// Build the model's vector index if it has none yet. Runs as a call of its
+// own because the build blocks chunk writes; searches still work, only
+// slower, if it fails.
+const ensureVectorIndex = async (model: EmbeddingModel) => {
+  const { error } = await supabase.rpc('ensure_chunk_vector_index', {
+    p_model: model.modelId,
+    p_dimension: model.dimension,
+  });
+
+  if (error) {
+    console.error(`Failed to build the vector index of ${model.modelId}:`, error.message);
+  }
+};
+
+// Remove the chunks a migration wrote for a title, leaving the live model's
+const discardMigrationChunks = async (migration: EmbeddingMigration) => {
+  const { data: chapters } = await supabase
+    .from('chapters')
+    .select('id')
+    .eq('title_id', migration.title_id);
+
+  const { error } = await supabase
+    .from('chapter_chunks')
+    .delete()
+    .eq('embedding_model', migration.to_model)
+    .in('chapter_id', (chapters || []).map((chapter) => chapter.id));
+
+  if (error) {
+    console.error(`Failed to discard chunks of embedding migration ${migration.id}:`, error.message);
+  }
+};
+
+// Worker side: embed every chapter of the title with the target model next
+// to the live chunks, then cut over. Chapters that already have chunks of
+// the target model are skipped, so a retried job picks up where it stopped.
+// The job's lease is renewed after every chapter, since a large title takes
+// longer than the lock timeout and must not be claimed twice.
+const reembedTitleHandler: JobHandler = async (job) => {
+  const { migrationId } = job.payload;
+
+  const { data: migration, error: migrationError } = await supabase
+    .from('embedding_migrations')
+    .select('*')
+    .eq('id', migrationId)
+    .single();
+
+  if (migrationError || !migration) {
+    throw new Error(`Embedding migration not found: ${migrationError?.message}`);
+  }
+  if (migration.status === 'completed' || migration.status === 'failed') {
+    return;
+  }
+
+  const target: EmbeddingModel = { modelId: migration.to_model, dimension: migration.to_dimension };
+
+  try {
+    const { data: chapters, error: chaptersError } = await supabase
+      .from('chapters')
+      .select('*')
+      .eq('title_id', migration.title_id)
+      .order('order', { ascending: true });
+
+    if (chaptersError) {
+      throw new Error(chaptersError.message);
+    }
+
+    const { data: embedded, error: embeddedError } = await supabase
+      .from('chapter_chunks')
+      .select('chapter_id')
+      .eq('embedding_model', target.modelId)
+      .in('chapter_id', (chapters || []).map((chapter) => chapter.id));
+
+    if (embeddedError) {
+      throw new Error(embeddedError.message);
+    }
+
+    const done = new Set((embedded || []).map((chunk) => chunk.chapter_id));
+    const remaining = (chapters || []).filter((chapter) => !done.has(chapter.id));
+
+    await updateMigration(migration.id, {
+      status: 'running',
+      chapters_total: (chapters || []).length,
+      chapters_done: (chapters || []).length - remaining.length,
+      started_at: migration.started_at || new Date().toISOString(),
+    });
+
+    let chaptersDone = (chapters || []).length - remaining.length;
+    for (const chapter of remaining) {
+      const indexResult = await chunksService.indexChapter(chapter as Chapter, target);
+      if (!indexResult.success) {
+        throw new Error(`Chapter ${chapter.order}: ${indexResult.error}`);
+      }
+      chaptersDone += 1;
+      await updateMigration(migration.id, { chapters_done: chaptersDone });
+      await jobsService.extendLease(job);
+    }
+
+    await ensureVectorIndex(target);
+    await jobsService.extendLease(job);
+
+    const { data: cutOver, error: cutoverError } = await supabase.rpc('cutover_embedding_model', {
+      p_migration_id: migration.id,
+    });
+
+    if (cutoverError) {
+      throw new Error(`Cutover failed: ${cutoverError.message}`);
+    }
+    if (cutOver) {
+      console.log(`✅ Title ${migration.title_id} now searches ${target.modelId}`);
+    }
+  } catch (error) {
+    if (job.attempts >= job.max_attempts && !(error instanceof JobLeaseLostError)) {
+      await updateMigration(migration.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await discardMigrationChunks(migration);
+    }
+    throw error;
+  }
+};
+
+export const embeddingModelsService = {
+  // Register the re-embedding handler with the job worker
+  register: (): void => {
+    jobsService.register(REEMBED_TITLE_JOB, reembedTitleHandler);
+  },
+
+  // Model a title's passages are searched with: the one recorded on the
+  // title, or the configured provider's for a title not indexed yet
+  getActiveModel: async (titleId: string): Promise<EmbeddingModel> => {
+    const { data, error } = await supabase
+      .from('titles')
+      .select('embedding_model, embedding_dimension')
+      .eq('id', titleId)
+      .single();
+
+    if (error) {
+      console.error('Get active embedding model error:', error.message);
+    }
+
+    return data?.embedding_model && data.embedding_dimension
+      ? { modelId: data.embedding_model, dimension: data.embedding_dimension }
+      : getEmbeddingModel();
+  },
+
+  // Models a title's chapters are kept indexed in: the active one, plus the
+  // target of an unfinished migration so edits made meanwhile aren't lost
+  getIndexedModels: async (titleId: string): Promise<EmbeddingModel[]> => {
+    const active = await embeddingModelsService.getActiveModel(titleId);
+
+    const { data: migration } = await supabase
+      .from('embedding_migrations')
+      .select('to_model, to_dimension')
+      .eq('title_id', titleId)
+      .in('status', ['queued', 'running'])
+      .maybeSingle();
+
+    return migration && migration.to_model !== active.modelId
+      ? [active, { modelId: migration.to_model, dimension: migration.to_dimension }]
+      : [active];
+  },
+
+  // Record the model a title was first indexed with; no-op once it has one
+  adoptModel: async (titleId: string, model: EmbeddingModel): Promise<void> => {
+    const { data, error } = await supabase
+      .from('titles')
+      .update({ embedding_model: model.modelId, embedding_dimension: model.dimension })
+      .eq('id', titleId)
+      .is('embedding_model', null)
+      .select('id');
+
+    if (error) {
+      console.error(`Failed to record embedding model of title ${titleId}:`, error.message);
+      return;
+    }
+
+    if (data && data.length > 0) {
+      await ensureVectorIndex(model);
+    }
+  },
+
+  // Drop a chapter's chunks from models the title no longer uses
+  pruneChapterChunks: async (chapterId: string, keep: EmbeddingModel[]): Promise<void> => {
+    const { error } = await supabase
+      .from('chapter_chunks')
+      .delete()
+      .eq('chapter_id', chapterId)
+      .not('embedding_model', 'in', modelList(keep));
+
+    if (error) {
+      console.error(`Failed to prune stale chunks of chapter ${chapterId}:`, error.message);
+    }
+  },
+
+  // Re-embed a title into another model in the background. Searches keep
+  // using the current model until every chapter is done, then switch over
+  // in one transaction. Defaults to the configured provider's model.
+  startMigration: async (
+    titleId: string,
+    target: EmbeddingModel = getEmbeddingModel()
+  ): Promise<ApiResponse<EmbeddingMigration>> => {
+    try {
+      try {
+        createEmbeddingProviderForModel(target.modelId, target.dimension);
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      const active = await embeddingModelsService.getActiveModel(titleId);
+      if (active.modelId === target.modelId) {
+        return { success: false, error: `Title already uses ${target.modelId}` };
+      }
+
+      const { data: unfinished } = await supabase
+        .from('embedding_migrations')
+        .select('id')
+        .eq('title_id', titleId)
+        .in('status', ['queued', 'running']);
+
+      if (unfinished && unfinished.length > 0) {
+        return { success: false, error: 'A migration is already in progress for this title' };
+      }
+
+      const { data: migration, error } = await supabase
+        .from('embedding_migrations')
+        .insert({
+          title_id: titleId,
+          from_model: active.modelId,
+          to_model: target.modelId,
+          to_dimension: target.dimension,
+          status: 'queued',
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Two migrations started at once; the partial unique index keeps one
+        return {
+          success: false,
+          error: error.code === '23505' ? 'A migration is already in progress for this title' : error.message,
+        };
+      }
+
+      const jobResult = await jobsService.enqueue(REEMBED_TITLE_JOB, { migrationId: migration.id });
+      if (!jobResult.success) {
+        await updateMigration(migration.id, { status: 'failed', error: jobResult.error });
+        return { success: false, error: jobResult.error };
+      }
+
+      return { success: true, data: migration, message: 'Embedding migration started' };
+    } catch (error) {
+      console.error('Start embedding migration error:', error);
+      return { success: false, error: 'Failed to start embedding migration' };
+    }
+  },
+
+  // Migrations of a title, newest first
+  getMigrations: async (titleId: string): Promise<ApiResponse<EmbeddingMigration[]>> => {
+    try {
+      const { data, error } = await supabase
+        .from('embedding_migrations')
+        .select('*')
+        .eq('title_id', titleId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      console.error('Get embedding migrations error:', error);
+      return { success: false, error: 'Failed to fetch embedding migrations' };
+    }
+  },
+};
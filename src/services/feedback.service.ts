@@ -0,0 +1,150 @@
+import { supabase } from '../lib/supabase';
+import { answerCacheService } from './answer-cache.service';
+import type { AnswerFeedback, AnswerRating, ApiResponse, Question } from '../types/database.type';
+
+export type FeedbackFlag = 'spoiled' | 'wrong_answer' | 'thumbs_down';
+
+export interface FeedbackInput {
+  rating?: AnswerRating | null;
+  spoiled?: boolean;
+  wrong_answer?: boolean;
+  comment?: string | null;
+}
+
+// Feedback counts for one prompt template version
+export interface TemplateFeedbackSummary {
+  prompt_template: string | null;
+  prompt_template_version: number | null;
+  total: number;
+  thumbs_up: number;
+  thumbs_down: number;
+  spoiled: number;
+  wrong_answer: number;
+}
+
+export const feedbackService = {
+  // Rate or flag the current answer of a question. Submitting again for the
+  // same answer version updates the reader's earlier feedback.
+  submitFeedback: async (
+    question: Question,
+    userId: string,
+    input: FeedbackInput
+  ): Promise<ApiResponse<AnswerFeedback>> => {
+    try {
+      const { data, error } = await supabase
+        .from('answer_feedback')
+        .upsert(
+          {
+            question_id: question.id,
+            user_id: userId,
+            answer_version: question.answer_version,
+            prompt_template: question.prompt_template,
+            prompt_template_version: question.prompt_template_version,
+            ...input,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'question_id,user_id,answer_version' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      // A flagged answer must not be handed to anyone else from the cache
+      if (data.spoiled || data.wrong_answer) {
+        await answerCacheService.invalidateSource(question.reused_from_question_id || question.id);
+      }
+
+      return { success: true, data, message: 'Feedback recorded successfully' };
+    } catch (error) {
+      console.error('Submit feedback error:', error);
+      return { success: false, error: 'Failed to record feedback' };
+    }
+  },
+
+  // A reader's feedback on each version of a question's answer
+  getUserFeedback: async (questionId: string, userId: string): Promise<ApiResponse<AnswerFeedback[]>> => {
+    try {
+      const { data, error } = await supabase
+        .from('answer_feedback')
+        .select('*')
+        .eq('question_id', questionId)
+        .eq('user_id', userId)
+        .order('answer_version', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      console.error('Get user feedback error:', error);
+      return { success: false, error: 'Failed to fetch feedback' };
+    }
+  },
+
+  // Flagged feedback with the question it concerns, newest first, for
+  // reviewing prompts and retrieval settings
+  listFlagged: async (flag?: FeedbackFlag, limit: number = 50): Promise<ApiResponse<AnswerFeedback[]>> => {
+    try {
+      let query = supabase
+        .from('answer_feedback')
+        .select(`
+          *,
+          questions(id, title_id, chapter_limit, question_text, answer_text, answer_version)
+        `)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (flag === 'spoiled') {
+        query = query.eq('spoiled', true);
+      } else if (flag === 'wrong_answer') {
+        query = query.eq('wrong_answer', true);
+      } else if (flag === 'thumbs_down') {
+        query = query.eq('rating', -1);
+      } else {
+        query = query.or('spoiled.eq.true,wrong_answer.eq.true,rating.eq.-1');
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      console.error('List flagged feedback error:', error);
+      return { success: false, error: 'Failed to fetch flagged feedback' };
+    }
+  },
+
+  // Feedback totals per prompt template version
+  summarizeByTemplate: async (): Promise<ApiResponse<TemplateFeedbackSummary[]>> => {
+    try {
+      const { data, error } = await supabase.rpc('feedback_summary_by_template');
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      // Counts arrive as bigints
+      const summaries: TemplateFeedbackSummary[] = (data || []).map((row: any) => ({
+        prompt_template: row.prompt_template,
+        prompt_template_version: row.prompt_template_version,
+        total: Number(row.total),
+        thumbs_up: Number(row.thumbs_up),
+        thumbs_down: Number(row.thumbs_down),
+        spoiled: Number(row.spoiled),
+        wrong_answer: Number(row.wrong_answer),
+      }));
+
+      return { success: true, data: summaries };
+    } catch (error) {
+      console.error('Summarize feedback error:', error);
+      return { success: false, error: 'Failed to summarize feedback' };
+    }
+  },
+};
@@ -0,0 +1,265 @@
+import { supabase } from '../lib/supabase';
+import { jobsService, type JobHandler } from './jobs.service';
+import { promptTemplatesService } from './prompt-templates.service';
+import { spoilerGuardService } from './spoiler-guard.service';
+import { getLLMProvider } from '../providers/llm/llm.provider';
+import { extractEntities, mentionsEntity, normalizeEntity } from '../utils/entities.util';
+import { contentHash } from '../utils/hash.util';
+import type {
+  ApiResponse,
+  GlossaryEntityType,
+  GlossaryMention,
+  Job,
+} from '../types/database.type';
+
+export const EXTRACT_GLOSSARY_JOB = 'extract_glossary';
+
+export interface GlossaryEntry {
+  name: string;
+  type: GlossaryEntityType;
+  first_chapter: number;
+  description: string; // as of the latest chapter the reader has reached
+  history: Array<{ chapter: number; description: string }>;
+}
+
+export interface Glossary {
+  title_id: string;
+  up_to: number;
+  entries: GlossaryEntry[];
+  // Chapters up to the limit whose entities have not been extracted yet
+  missing_chapters: number[];
+}
+
+const ENTITY_TYPES: GlossaryEntityType[] = ['character', 'place', 'faction', 'other'];
+// Capitalised names passed to the model as hints, most frequent first
+const MAX_CANDIDATES = 40;
+
+// Pull the JSON array out of the model's reply, dropping malformed items
+const parseMentions = (reply: string): GlossaryMention[] => {
+  const start = reply.indexOf('[');
+  const end = reply.lastIndexOf(']');
+  if (start < 0 || end < start) {
+    throw new Error('Glossary extraction did not return a JSON array');
+  }
+
+  const parsed = JSON.parse(reply.slice(start, end + 1));
+  if (!Array.isArray(parsed)) {
+    throw new Error('Glossary extraction did not return a JSON array');
+  }
+
+  return parsed
+    .filter((item) => item && typeof item.name === 'string' && typeof item.description === 'string')
+    .map((item) => ({
+      name: item.name.trim(),
+      type: ENTITY_TYPES.includes(item.type) ? item.type : 'other',
+      description: item.description.trim(),
+    }))
+    .filter((item) => item.name && item.description);
+};
+
+const extractGlossaryHandler: JobHandler = async (job) => {
+  const result = await glossaryService.extractChapter(job.payload.chapterId);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+};
+
+export const glossaryService = {
+  // Register the extraction handler with the job worker
+  register: (): void => {
+    jobsService.register(EXTRACT_GLOSSARY_JOB, extractGlossaryHandler);
+  },
+
+  enqueueChapter: (chapterId: string): Promise<ApiResponse<Job>> =>
+    jobsService.enqueue(EXTRACT_GLOSSARY_JOB, { chapterId }),
+
+  // Queue extraction for every chapter of a title; unchanged chapters are
+  // skipped by the worker
+  enqueueTitle: async (titleId: string): Promise<ApiResponse<{ chapterCount: number }>> => {
+    try {
+      const { data: chapters, error } = await supabase
+        .from('chapters')
+        .select('id')
+        .eq('title_id', titleId)
+        .order('order', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      for (const chapter of chapters || []) {
+        const jobResult = await glossaryService.enqueueChapter(chapter.id);
+        if (!jobResult.success) {
+          return { success: false, error: jobResult.error };
+        }
+      }
+
+      return {
+        success: true,
+        data: { chapterCount: chapters?.length || 0 },
+        message: 'Glossary extraction queued',
+      };
+    } catch (error) {
+      console.error('Enqueue glossary extraction error:', error);
+      return { success: false, error: 'Failed to queue glossary extraction' };
+    }
+  },
+
+  // Extract the entities of one chapter, unless its text is unchanged since
+  // the last extraction
+  extractChapter: async (chapterId: string): Promise<ApiResponse<{ entityCount: number }>> => {
+    try {
+      const { data: chapter, error: chapterError } = await supabase
+        .from('chapters')
+        .select('*')
+        .eq('id', chapterId)
+        .single();
+
+      if (chapterError || !chapter) {
+        return { success: false, error: chapterError?.message || 'Chapter not found' };
+      }
+
+      const content = chapter.content || '';
+      const order = chapter.order ?? 0;
+      const hash = contentHash(content);
+
+      const { data: existing } = await supabase
+        .from('chapter_glossary')
+        .select('content_hash, entities')
+        .eq('chapter_id', chapterId)
+        .maybeSingle();
+
+      if (existing && existing.content_hash === hash) {
+        return { success: true, data: { entityCount: existing.entities.length }, message: 'Glossary already up to date' };
+      }
+
+      const candidates = [...extractEntities(content)]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_CANDIDATES)
+        .map(([name]) => name);
+
+      const prompt = await promptTemplatesService.render('glossary', {
+        chapter_order: order,
+        chapter_name: chapter.name || `Chapter ${order}`,
+        content,
+        candidates: candidates.join(', ') || 'none',
+      });
+
+      console.log(`📇 Extracting glossary for chapter ${order} of title ${chapter.title_id}`);
+      const response = await getLLMProvider().complete({
+        messages: [{ role: 'user', content: prompt.text }],
+        temperature: 0,
+        maxTokens: 2000,
+      });
+
+      // Keep only entities the chapter actually names, and strip anything
+      // the model knows from later in the book
+      const index = await spoilerGuardService.getIndex(chapter.title_id);
+      const entities = parseMentions(response.content)
+        .filter((mention) => mentionsEntity(content, mention.name))
+        .map((mention) => {
+          const check = spoilerGuardService.check(index, order, mention.description);
+          return check.leaked
+            ? { ...mention, description: spoilerGuardService.redact(mention.description, check) }
+            : mention;
+        });
+
+      const { error } = await supabase
+        .from('chapter_glossary')
+        .upsert(
+          {
+            chapter_id: chapterId,
+            title_id: chapter.title_id,
+            content_hash: hash,
+            entities,
+            model: response.model,
+            prompt_template_version: prompt.version,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'chapter_id' }
+        );
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: { entityCount: entities.length }, message: 'Glossary extracted successfully' };
+    } catch (error) {
+      console.error('Extract glossary error:', error);
+      return { success: false, error: 'Failed to extract glossary' };
+    }
+  },
+
+  // Glossary as a reader at chapter upTo knows it: entries first seen by
+  // then, with descriptions from those chapters only
+  getGlossary: async (titleId: string, upTo: number): Promise<ApiResponse<Glossary>> => {
+    try {
+      const { data: chapters, error: chaptersError } = await supabase
+        .from('chapters')
+        .select('id, order')
+        .eq('title_id', titleId)
+        .lte('order', upTo)
+        .order('order', { ascending: true });
+
+      if (chaptersError) {
+        return { success: false, error: chaptersError.message };
+      }
+
+      const chapterIds = (chapters || []).map((chapter) => chapter.id);
+      const { data: extractions, error } = await supabase
+        .from('chapter_glossary')
+        .select('chapter_id, entities')
+        .in('chapter_id', chapterIds);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const byChapter = new Map<string, GlossaryMention[]>(
+        (extractions || []).map((row) => [row.chapter_id, row.entities])
+      );
+      const entries = new Map<string, GlossaryEntry>();
+      const missingChapters: number[] = [];
+
+      (chapters || []).forEach((chapter) => {
+        const order = chapter.order ?? 0;
+        const mentions = byChapter.get(chapter.id);
+        if (!mentions) {
+          missingChapters.push(order);
+          return;
+        }
+
+        mentions.forEach((mention) => {
+          const key = normalizeEntity(mention.name);
+          const entry = entries.get(key);
+          if (!entry) {
+            entries.set(key, {
+              name: mention.name,
+              type: mention.type,
+              first_chapter: order,
+              description: mention.description,
+              history: [{ chapter: order, description: mention.description }],
+            });
+            return;
+          }
+          entry.description = mention.description;
+          entry.history.push({ chapter: order, description: mention.description });
+          if (entry.type === 'other') entry.type = mention.type;
+        });
+      });
+
+      return {
+        success: true,
+        data: {
+          title_id: titleId,
+          up_to: upTo,
+          entries: [...entries.values()].sort((a, b) => a.name.localeCompare(b.name)),
+          missing_chapters: missingChapters,
+        },
+      };
+    } catch (error) {
+      console.error('Get glossary error:', error);
+      return { success: false, error: 'Failed to fetch glossary' };
+    }
+  },
+};
@@ -0,0 +1,192 @@
+import { supabase } from '../lib/supabase';
+import { chunksService } from './chunks.service';
+import { answerCacheService } from './answer-cache.service';
+import { embeddingModelsService } from './embedding-models.service';
+import { jobsService, type JobHandler } from './jobs.service';
+import type { EmbeddingModel } from '../utils/embedding.util';
+import type { ApiResponse, Chapter, EmbeddingStatus, Job } from '../types/database.type';
+
+export const EMBED_CHAPTER_JOB = 'embed_chapter';
+
+// Chapters this worker is embedding. A chapter edited again while its run
+// is in flight gets a second job, which waits for the first rather than
+// writing the same chunks at the same time.
+const inFlight = new Map<string, Promise<unknown>>();
+
+const setEmbeddingStatus = async (
+  chapterId: string,
+  status: EmbeddingStatus,
+  embeddingError: string | null = null
+) => {
+  const { error } = await supabase
+    .from('chapters')
+    .update({
+      embedding_status: status,
+      embedding_error: embeddingError,
+      ...(status === 'ready' && { embedded_at: new Date().toISOString() }),
+    })
+    .eq('id', chapterId);
+
+  if (error) {
+    console.error(`Failed to set embedding status for chapter ${chapterId}:`, error.message);
+  }
+};
+
+// Worker side: embed one chapter. Failures are retried by the job queue,
+// and jobs outlive restarts, so no chapter is left pending for good.
+const embedChapterHandler: JobHandler = async (job) => {
+  const { chapterId } = job.payload;
+
+  const previous = inFlight.get(chapterId) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(() => ingestionService.embedChapter(chapterId));
+  inFlight.set(chapterId, run);
+
+  try {
+    const result = await run;
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  } finally {
+    if (inFlight.get(chapterId) === run) inFlight.delete(chapterId);
+  }
+};
+
+export const ingestionService = {
+  // Register the embedding handler with the job worker
+  register: (): void => {
+    jobsService.register(EMBED_CHAPTER_JOB, embedChapterHandler);
+  },
+
+  // Chunk, embed and store a single chapter in every model its title is
+  // indexed in, replacing any stale vectors
+  embedChapter: async (chapterId: string): Promise<ApiResponse<{ chunkCount: number }>> => {
+    try {
+      await setEmbeddingStatus(chapterId, 'processing');
+
+      const { data: chapter, error: chapterError } = await supabase
+        .from('chapters')
+        .select('*')
+        .eq('id', chapterId)
+        .single();
+
+      if (chapterError || !chapter) {
+        await setEmbeddingStatus(chapterId, 'failed', chapterError?.message || 'Chapter not found');
+        return { success: false, error: chapterError?.message || 'Chapter not found' };
+      }
+
+      const models = await embeddingModelsService.getIndexedModels(chapter.title_id);
+      let chunkCount = 0;
+      for (const model of models) {
+        const indexResult = await chunksService.indexChapter(chapter as Chapter, model);
+        if (!indexResult.success) {
+          await setEmbeddingStatus(chapterId, 'failed', indexResult.error);
+          return { success: false, error: indexResult.error };
+        }
+        chunkCount = indexResult.data?.length || 0;
+      }
+
+      await embeddingModelsService.pruneChapterChunks(chapterId, models);
+      await embeddingModelsService.adoptModel(chapter.title_id, models[0]);
+
+      // Whole-chapter vectors are superseded by the chunk table
+      const { error: staleError } = await supabase
+        .from('chapter_embeddings')
+        .delete()
+        .eq('chapter_id', chapterId);
+
+      if (staleError) {
+        console.error(`Failed to remove stale embeddings for chapter ${chapterId}:`, staleError.message);
+      }
+
+      await setEmbeddingStatus(chapterId, 'ready');
+
+      // Cached answers were retrieved against the previous vectors
+      await answerCacheService.invalidateFromChapter(chapter.title_id, chapter.order);
+
+      return {
+        success: true,
+        data: { chunkCount },
+        message: 'Chapter embedded successfully'
+      };
+    } catch (error) {
+      console.error('Embed chapter error:', error);
+      await setEmbeddingStatus(chapterId, 'failed', 'Failed to embed chapter');
+      return { success: false, error: 'Failed to embed chapter' };
+    }
+  },
+
+  // Queue a chapter for embedding in the background
+  enqueueChapter: async (chapterId: string): Promise<ApiResponse<Job>> => {
+    const result = await jobsService.enqueue(EMBED_CHAPTER_JOB, { chapterId });
+    if (!result.success) {
+      await setEmbeddingStatus(chapterId, 'failed', result.error);
+    }
+    return result;
+  },
+
+  // Mark every chapter of a title as pending and re-embed them in the background
+  reembedTitle: async (titleId: string): Promise<ApiResponse<{ chapterCount: number }>> => {
+    try {
+      const { data: chapters, error } = await supabase
+        .from('chapters')
+        .update({ embedding_status: 'pending', embedding_error: null })
+        .eq('title_id', titleId)
+        .select('id, order')
+        .order('order', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const chapterIds = (chapters || []).map((chapter) => chapter.id);
+
+      // Queued in reading order; the worker's concurrency limit and the
+      // retries around provider calls keep within rate limits
+      for (const chapterId of chapterIds) {
+        await ingestionService.enqueueChapter(chapterId);
+      }
+
+      return {
+        success: true,
+        data: { chapterCount: chapterIds.length },
+        message: 'Re-embedding queued'
+      };
+    } catch (error) {
+      console.error('Re-embed title error:', error);
+      return { success: false, error: 'Failed to start re-embedding' };
+    }
+  },
+
+  // Get the embedding status of every chapter in a title, and the model
+  // its passages are searched with
+  getTitleEmbeddingStatus: async (titleId: string): Promise<ApiResponse<{
+    model: EmbeddingModel;
+    counts: Record<EmbeddingStatus, number>;
+    chapters: Pick<Chapter, 'id' | 'order' | 'name' | 'embedding_status' | 'embedding_error' | 'embedded_at'>[];
+  }>> => {
+    try {
+      const { data, error } = await supabase
+        .from('chapters')
+        .select('id, order, name, embedding_status, embedding_error, embedded_at')
+        .eq('title_id', titleId)
+        .order('order', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const chapters = data || [];
+      const counts: Record<EmbeddingStatus, number> = { pending: 0, processing: 0, ready: 0, failed: 0 };
+      chapters.forEach((chapter) => {
+        counts[chapter.embedding_status as EmbeddingStatus] += 1;
+      });
+
+      const model = await embeddingModelsService.getActiveModel(titleId);
+
+      return { success: true, data: { model, counts, chapters } };
+    } catch (error) {
+      console.error('Get title embedding status error:', error);
+      return { success: false, error: 'Failed to fetch embedding status' };
+    }
+  },
+};
@@ -0,0 +1,187 @@
+import { getJobQueue, type EnqueueOptions } from '../providers/queue/queue.provider';
+import { isUpstreamOutage } from '../utils/resilience.util';
+import type { ApiResponse, Job, JobStatus } from '../types/database.type';
+
+// Handlers can tell whether a failure will be retried from
+// job.attempts < job.max_attempts
+export type JobHandler = (job: Job) => Promise<void>;
+
+// Thrown when a job's lease ran out and another worker claimed it; the job
+// is theirs now, so this worker leaves it alone
+export class JobLeaseLostError extends Error {
+  constructor(job: Job) {
+    super(`Job ${job.id} (${job.type}) attempt ${job.attempts} lost its lease`);
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+const handlers = new Map<string, JobHandler>();
+const running = new Set<Promise<void>>();
+
+const concurrency = parseInt(process.env.JOB_CONCURRENCY || '2');
+const pollIntervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000');
+const retryBaseDelayMs = parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '5000');
+
+let pollTimer: NodeJS.Timeout | null = null;
+let stopping = false;
+
+// Exponential backoff with full jitter: up to base * 2^(attempt - 1), but
+// no sooner than an unavailable upstream service said to come back
+const retryDelay = (attempt: number, error: Error) =>
+  Math.max(
+    Math.round(Math.random() * retryBaseDelayMs * 2 ** Math.max(0, attempt - 1)),
+    isUpstreamOutage(error) ? error.retryAfterMs || 0 : 0
+  );
+
+const processJob = async (job: Job) => {
+  const handler = handlers.get(job.type);
+  const queue = getJobQueue();
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`);
+    }
+    await handler(job);
+    await queue.complete(job.id);
+  } catch (err) {
+    if (err instanceof JobLeaseLostError) {
+      console.warn(`⚠️ ${err.message}; another worker has taken it over`);
+      return;
+    }
+
+    const error = err instanceof Error ? err : new Error(String(err));
+    console.error(`❌ Job ${job.id} (${job.type}) attempt ${job.attempts} failed:`, error.message);
+
+    try {
+      if (job.attempts < job.max_attempts) {
+        await queue.retry(job.id, error.message, new Date(Date.now() + retryDelay(job.attempts, error)));
+      } else {
+        await queue.bury(job.id, error.message);
+      }
+    } catch (bookkeepingError) {
+      console.error(`❌ Failed to record failure of job ${job.id}:`, bookkeepingError);
+    }
+  }
+};
+
+// Claim jobs until the concurrency limit is reached or nothing is due
+const poll = async () => {
+  pollTimer = null;
+
+  try {
+    while (!stopping && running.size < concurrency) {
+      const job = await getJobQueue().claim([...handlers.keys()]);
+      if (!job) break;
+
+      const task = processJob(job).finally(() => {
+        running.delete(task);
+        // A slot just freed up, look for more work straight away
+        if (!stopping && !pollTimer) {
+          pollTimer = setTimeout(poll, 0);
+        }
+      });
+      running.add(task);
+    }
+  } catch (error) {
+    console.error('❌ Job polling error:', error);
+  }
+
+  if (!stopping && !pollTimer) {
+    pollTimer = setTimeout(poll, pollIntervalMs);
+  }
+};
+
+export const jobsService = {
+  register: (type: string, handler: JobHandler): void => {
+    handlers.set(type, handler);
+  },
+
+  // Long-running handlers call this between steps so the job isn't claimed
+  // again after JOB_LOCK_TIMEOUT_SECONDS. Throws JobLeaseLostError if it
+  // already was.
+  extendLease: async (job: Job): Promise<void> => {
+    if (!(await getJobQueue().extendLease(job.id, job.attempts))) {
+      throw new JobLeaseLostError(job);
+    }
+  },
+
+  enqueue: async (
+    type: string,
+    payload: Record<string, any>,
+    options?: EnqueueOptions
+  ): Promise<ApiResponse<Job>> => {
+    try {
+      const job = await getJobQueue().enqueue(type, payload, {
+        maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3'),
+        ...options,
+      });
+
+      // Wake the worker so in-process jobs start without waiting a poll interval
+      if (pollTimer && running.size < concurrency) {
+        clearTimeout(pollTimer);
+        pollTimer = setTimeout(poll, 0);
+      }
+
+      return { success: true, data: job, message: 'Job queued successfully' };
+    } catch (error) {
+      console.error('Enqueue job error:', error);
+      return { success: false, error: 'Failed to queue job' };
+    }
+  },
+
+  // Start polling for jobs of every registered type
+  start: (): void => {
+    stopping = false;
+    if (!pollTimer) {
+      pollTimer = setTimeout(poll, 0);
+    }
+    console.log(`🧵 Job worker started (${getJobQueue().name} queue, concurrency ${concurrency})`);
+  },
+
+  // Stop claiming new jobs and wait for the running ones to finish
+  stop: async (): Promise<void> => {
+    stopping = true;
+    if (pollTimer) {
+      clearTimeout(pollTimer);
+      pollTimer = null;
+    }
+    await Promise.allSettled([...running]);
+  },
+
+  getJob: async (jobId: string): Promise<ApiResponse<Job>> => {
+    try {
+      const job = await getJobQueue().get(jobId);
+      if (!job) {
+        return { success: false, error: 'Job not found' };
+      }
+      return { success: true, data: job };
+    } catch (error) {
+      console.error('Get job error:', error);
+      return { success: false, error: 'Failed to fetch job' };
+    }
+  },
+
+  listJobs: async (status?: JobStatus, limit?: number): Promise<ApiResponse<Job[]>> => {
+    try {
+      const jobs = await getJobQueue().list(status, limit);
+      return { success: true, data: jobs };
+    } catch (error) {
+      console.error('List jobs error:', error);
+      return { success: false, error: 'Failed to fetch jobs' };
+    }
+  },
+
+  // Give a dead-lettered job another full set of attempts
+  retryDeadJob: async (jobId: string): Promise<ApiResponse<Job>> => {
+    try {
+      const job = await getJobQueue().requeue(jobId);
+      if (!job) {
+        return { success: false, error: 'Dead job not found' };
+      }
+      return { success: true, data: job, message: 'Job requeued successfully' };
+    } catch (error) {
+      console.error('Retry dead job error:', error);
+      return { success: false, error: 'Failed to requeue job' };
+    }
+  },
+};
@@ -0,0 +1,57 @@
+import { getModerationProvider } from '../providers/moderation/moderation.provider';
+import { completionUsage, usageService } from './usage.service';
+import { detectPromptInjection } from '../utils/prompt-injection.util';
+import type { QuestionRefusalReason } from '../types/database.type';
+
+export interface ScreeningResult {
+  allowed: boolean;
+  reason: QuestionRefusalReason | null;
+  // What triggered the refusal, shown to admins reviewing it
+  detail: string | null;
+}
+
+// Longest question accepted, in characters after trimming
+export const maxQuestionLength = () => parseInt(process.env.QUESTION_MAX_CHARS || '1000', 10);
+
+const refuse = (reason: QuestionRefusalReason, detail: string): ScreeningResult => ({ allowed: false, reason, detail });
+
+export const moderationService = {
+  // Checks a question must pass before it is sent to the model, cheapest
+  // first: length, prompt-injection patterns, then the content-safety
+  // classifier. Throws if the classifier can't be reached. A classifier
+  // that calls an LLM is charged to charge.userId.
+  screenQuestion: async (
+    questionText: string,
+    charge: { userId: string; titleId?: string | null; questionId?: string | null }
+  ): Promise<ScreeningResult> => {
+    const text = questionText.trim();
+
+    const limit = maxQuestionLength();
+    if (text.length > limit) {
+      return refuse('too_long', `${text.length} characters, limit is ${limit}`);
+    }
+
+    const injections = detectPromptInjection(text);
+    if (injections.length > 0) {
+      return refuse('prompt_injection', injections.map((match) => `${match.pattern}: "${match.text}"`).join('; '));
+    }
+
+    const provider = getModerationProvider();
+    const classification = await provider.classify(text);
+    if (classification.completion) {
+      const { provider: llmProvider, request, result } = classification.completion;
+      await usageService.record({
+        ...charge,
+        kind: 'moderation',
+        provider: llmProvider,
+        model: result.model,
+        usage: completionUsage(request, result),
+      });
+    }
+    if (classification.flagged) {
+      return refuse('unsafe_content', `${provider.name}: ${classification.categories.join(', ') || 'flagged'}`);
+    }
+
+    return { allowed: true, reason: null, detail: null };
+  },
+};
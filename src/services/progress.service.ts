@@ -1,6 +1,27 @@
 import { supabase } from '../lib/supabase';
 import type { UserProgress, InsertUserProgress, ApiResponse, UserProgressWithTitle } from '../types/database.type';
 
+// A progress update this long after the previous one starts a new reading session
+const sessionGapMs = () => parseInt(process.env.READING_SESSION_GAP_MINUTES || '30') * 60 * 1000;
+
+// How a reader's chapter limits are checked against their saved progress,
+// kept in their Supabase user metadata: "off" accepts any limit, "reject"
+// refuses limits beyond the current chapter and "clamp" lowers them to it
+export const STRICT_CHAPTER_LIMIT_MODES = ['off', 'reject', 'clamp'] as const;
+export type StrictChapterLimitMode = (typeof STRICT_CHAPTER_LIMIT_MODES)[number];
+
+export const strictChapterLimitMode = (user: any): StrictChapterLimitMode => {
+  const mode = user?.user_metadata?.strict_chapter_limit;
+  return STRICT_CHAPTER_LIMIT_MODES.includes(mode) ? mode : 'off';
+};
+
+export interface ResolvedChapterLimit {
+  chapter_limit: number;
+  progress_chapter: number | null;
+  clamped: boolean;
+  asked_ahead: boolean; // the reader explicitly asked beyond their progress
+}
+
 export const progressService = {
   // Update user progress for a title
   updateProgress: async (
@@ -11,6 +32,17 @@ export const progressService = {
   ): Promise<ApiResponse<UserProgress>> => {
     try {
       const progressPercentage = totalChapters > 0 ? Math.round((currentChapter / totalChapters) * 100) : 0;
+
+      const { data: previous } = await supabase
+        .from('user_progress')
+        .select('current_chapter, updated_at')
+        .eq('user_id', userId)
+        .eq('title_id', titleId)
+        .maybeSingle();
+
+      const now = new Date();
+      const lastActivity = previous?.updated_at ? new Date(previous.updated_at).getTime() : 0;
+      const newSession = now.getTime() - lastActivity > sessionGapMs();
       
       const { data, error } = await supabase
         .from('user_progress')
@@ -20,7 +52,12 @@ export const progressService = {
           current_chapter: currentChapter,
           total_chapters: totalChapters,
           progress_percentage: progressPercentage,
-          updated_at: new Date().toISOString(),
+          // Remember where the session began; "since my last session" recaps start there
+          ...(newSession && {
+            session_start_chapter: previous?.current_chapter ?? 0,
+            session_started_at: now.toISOString(),
+          }),
+          updated_at: now.toISOString(),
         }, {
           onConflict: 'user_id,title_id'
         })
@@ -63,6 +100,75 @@ export const progressService = {
     }
   },
 
+  // Chapter limit for a question: the requested one, or the reader's saved
+  // progress when none is given. Limits beyond the progress are checked
+  // against the reader's strict mode unless askAhead is set.
+  resolveChapterLimit: async (
+    user: any,
+    titleId: string,
+    requestedLimit?: number,
+    askAhead: boolean = false
+  ): Promise<ApiResponse<ResolvedChapterLimit>> => {
+    try {
+      const { data: progress, error } = await supabase
+        .from('user_progress')
+        .select('current_chapter')
+        .eq('user_id', user.id)
+        .eq('title_id', titleId)
+        .maybeSingle();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      // Progress of 0 means the reader hasn't started: every chapter is ahead
+      const progressChapter = progress?.current_chapter ?? null;
+      if (!requestedLimit) {
+        if (progressChapter === null || progressChapter === 0) {
+          return { success: false, error: 'chapter_limit is required when there is no reading progress for this title' };
+        }
+        return {
+          success: true,
+          data: { chapter_limit: progressChapter, progress_chapter: progressChapter, clamped: false, asked_ahead: false },
+        };
+      }
+
+      // Nothing to compare against before the reader has saved any progress
+      if (progressChapter === null || requestedLimit <= progressChapter) {
+        return {
+          success: true,
+          data: { chapter_limit: requestedLimit, progress_chapter: progressChapter, clamped: false, asked_ahead: false },
+        };
+      }
+
+      if (askAhead) {
+        return {
+          success: true,
+          data: { chapter_limit: requestedLimit, progress_chapter: progressChapter, clamped: false, asked_ahead: true },
+        };
+      }
+
+      // Clamping to no chapters at all would leave nothing to answer from
+      const mode = strictChapterLimitMode(user);
+      if (mode === 'reject' || (mode === 'clamp' && progressChapter === 0)) {
+        return {
+          success: false,
+          error: `chapter_limit ${requestedLimit} is beyond your reading progress (chapter ${progressChapter}); set ask_ahead to ask anyway`,
+        };
+      }
+
+      return {
+        success: true,
+        data: mode === 'clamp'
+          ? { chapter_limit: progressChapter, progress_chapter: progressChapter, clamped: true, asked_ahead: false }
+          : { chapter_limit: requestedLimit, progress_chapter: progressChapter, clamped: false, asked_ahead: false },
+      };
+    } catch (error) {
+      console.error('Resolve chapter limit error:', error);
+      return { success: false, error: 'Failed to resolve chapter limit' };
+    }
+  },
+
   // Get all user progress with title information
   getUserProgress: async (userId: string): Promise<ApiResponse<UserProgressWithTitle[]>> => {
     try {
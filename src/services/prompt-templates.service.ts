@@ -0,0 +1,281 @@
+import { supabase } from '../lib/supabase';
+import { renderTemplate, templateVariables } from '../utils/prompt-template.util';
+import type { ApiResponse, PromptTemplate } from '../types/database.type';
+
+export const PROMPT_TEMPLATE_NAMES = ['answer', 'spoiler_retry', 'chapter_summary', 'recap', 'glossary', 'quiz'] as const;
+export type PromptTemplateName = (typeof PROMPT_TEMPLATE_NAMES)[number];
+
+// Variables each template is rendered with; new versions may use any subset
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateName, string[]> = {
+  answer: ['context', 'question', 'chapter_limit'],
+  spoiler_retry: ['chapter_limit', 'avoid'],
+  chapter_summary: ['chapter_order', 'chapter_name', 'content', 'max_words'],
+  recap: ['chapter_limit', 'scope', 'summaries'],
+  glossary: ['chapter_order', 'chapter_name', 'content', 'candidates'],
+  quiz: ['chapter_limit', 'question_count', 'question_types', 'chapters'],
+};
+
+export interface RenderedPrompt {
+  name: PromptTemplateName;
+  version: number;
+  text: string;
+}
+
+type TemplateSource = Pick<PromptTemplate, 'name' | 'version' | 'template'>;
+
+// Same text as the version 1 rows seeded by the migration, used when the
+// registry has no active version or cannot be reached. They are numbered
+// version 0 so answers made with them are never taken for the stored
+// version 1.
+const BUILT_IN_TEMPLATES: Record<PromptTemplateName, TemplateSource> = {
+  answer: {
+    name: 'answer',
+    version: 0,
+    template: `
+You are a helpful assistant. Use ONLY the information provided in the passages below to answer the question. DO NOT use prior knowledge or guess. If the answer isn't found in the content, reply: "I could not find the answer in the provided chapters."
+
+### Relevant Passages (selected based on relevance):
+{{context}}
+
+### Question:
+{{question}}
+
+### Notes:
+- Avoid spoilers from content beyond Chapter {{chapter_limit}}
+- Stay factual and concise.
+- Cite the passages you used by their numbers in square brackets, e.g. [2].
+- Do NOT fabricate or assume details not present in the text.
+`,
+  },
+  spoiler_retry: {
+    name: 'spoiler_retry',
+    version: 0,
+    template: `
+### Important:
+Your previous answer revealed events from after Chapter {{chapter_limit}}. Answer again using only the passages above{{avoid}}.`,
+  },
+  chapter_summary: {
+    name: 'chapter_summary',
+    version: 0,
+    template: `
+Summarize the chapter below for a reader who has just finished it. Cover the main events, the characters involved and anything left unresolved, in at most {{max_words}} words. Use ONLY the chapter text; do not mention anything that happens later in the book, even if you know the story.
+
+### Chapter {{chapter_order}}: {{chapter_name}}
+{{content}}
+`,
+  },
+  recap: {
+    name: 'recap',
+    version: 0,
+    template: `
+Write a "story so far" recap for a reader returning to the book, based ONLY on the chapter summaries below. Keep it to a few short paragraphs, in order of events. The reader has read up to Chapter {{chapter_limit}}; do not hint at or predict anything beyond it.
+
+### Chapter summaries ({{scope}}):
+{{summaries}}
+`,
+  },
+  glossary: {
+    name: 'glossary',
+    version: 0,
+    template: `
+List the characters, places and factions that appear in the chapter below. For each, describe in one or two sentences who or what they are and what they do IN THIS CHAPTER ONLY. Do not use anything you may know about later parts of the book.
+
+Names that look important: {{candidates}}
+
+Reply with only a JSON array of objects with the keys "name", "type" ("character", "place", "faction" or "other") and "description".
+
+### Chapter {{chapter_order}}: {{chapter_name}}
+{{content}}
+`,
+  },
+  quiz: {
+    name: 'quiz',
+    version: 0,
+    template: `
+Write {{question_count}} comprehension questions about the chapters below for a reader who has read up to Chapter {{chapter_limit}}. Use question types: {{question_types}}. Every question and answer must come from the chapter text below; do not use anything you may know about later parts of the book.
+
+Reply with only a JSON array of objects with the keys:
+- "type": "multiple_choice" or "short_answer"
+- "question": the question
+- "options": for multiple_choice, an array of 4 answer options; omit for short_answer
+- "answer": the correct option, copied exactly, or a short answer of a few words
+- "chapter": the number of the chapter the answer comes from
+
+{{chapters}}
+`,
+  },
+};
+
+// Active versions are re-read at most this often, so activating a new
+// version takes effect without a restart
+const cacheTtlMs = () => parseInt(process.env.PROMPT_TEMPLATE_CACHE_MS || '60000');
+const activeCache = new Map<PromptTemplateName, { template: TemplateSource; loadedAt: number }>();
+
+const loadActive = async (name: PromptTemplateName): Promise<TemplateSource> => {
+  const cached = activeCache.get(name);
+  if (cached && Date.now() - cached.loadedAt < cacheTtlMs()) {
+    return cached.template;
+  }
+
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('name, version, template')
+    .eq('name', name)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  // Not cached, so the registry is asked again on the next render
+  if (error) {
+    console.error(`Failed to load prompt template ${name}, using the built-in one:`, error.message);
+    return BUILT_IN_TEMPLATES[name];
+  }
+
+  const template = data || BUILT_IN_TEMPLATES[name];
+  activeCache.set(name, { template, loadedAt: Date.now() });
+  return template;
+};
+
+export const promptTemplatesService = {
+  // The active version of a template, or a specific version when given
+  getTemplate: async (name: PromptTemplateName, version?: number): Promise<TemplateSource> => {
+    if (version === undefined) {
+      return loadActive(name);
+    }
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('name, version, template')
+      .eq('name', name)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load prompt template ${name} v${version}: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error(`Prompt template ${name} v${version} not found`);
+    }
+    return data;
+  },
+
+  render: async (
+    name: PromptTemplateName,
+    variables: Record<string, string | number>,
+    version?: number
+  ): Promise<RenderedPrompt> => {
+    const source = await promptTemplatesService.getTemplate(name, version);
+    return {
+      name,
+      version: source.version,
+      text: renderTemplate(source.template, variables),
+    };
+  },
+
+  // Every stored version, newest first
+  listTemplates: async (name?: PromptTemplateName): Promise<ApiResponse<PromptTemplate[]>> => {
+    try {
+      let query = supabase
+        .from('prompt_templates')
+        .select('*')
+        .order('name', { ascending: true })
+        .order('version', { ascending: false });
+
+      if (name) {
+        query = query.eq('name', name);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      console.error('List prompt templates error:', error);
+      return { success: false, error: 'Failed to fetch prompt templates' };
+    }
+  },
+
+  // Store a new version of a template, optionally making it active
+  createVersion: async (
+    name: PromptTemplateName,
+    template: string,
+    description: string | null,
+    activate: boolean
+  ): Promise<ApiResponse<PromptTemplate>> => {
+    try {
+      const unknown = templateVariables(template).filter(
+        (variable) => !PROMPT_TEMPLATE_VARIABLES[name].includes(variable)
+      );
+      if (unknown.length > 0) {
+        return {
+          success: false,
+          error: `Unknown variables for ${name}: ${unknown.join(', ')} (allowed: ${PROMPT_TEMPLATE_VARIABLES[name].join(', ')})`,
+        };
+      }
+
+      const { data: latest, error: latestError } = await supabase
+        .from('prompt_templates')
+        .select('version')
+        .eq('name', name)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) {
+        return { success: false, error: latestError.message };
+      }
+
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .insert({
+          name,
+          version: (latest?.version || 0) + 1,
+          template,
+          description,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      if (activate) {
+        return promptTemplatesService.activateVersion(name, data.version);
+      }
+
+      return { success: true, data, message: 'Prompt template version created successfully' };
+    } catch (error) {
+      console.error('Create prompt template version error:', error);
+      return { success: false, error: 'Failed to create prompt template version' };
+    }
+  },
+
+  // Make a stored version the one used for new answers
+  activateVersion: async (name: PromptTemplateName, version: number): Promise<ApiResponse<PromptTemplate>> => {
+    try {
+      const { data, error } = await supabase.rpc('activate_prompt_template', {
+        p_name: name,
+        p_version: version,
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const [activated] = (data || []) as PromptTemplate[];
+      if (!activated) {
+        return { success: false, error: `Prompt template ${name} v${version} not found` };
+      }
+
+      activeCache.delete(name);
+
+      return { success: true, data: activated, message: 'Prompt template version activated successfully' };
+    } catch (error) {
+      console.error('Activate prompt template version error:', error);
+      return { success: false, error: 'Failed to activate prompt template version' };
+    }
+  },
+};
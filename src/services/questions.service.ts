@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { Question, InsertQuestion, ApiResponse, QuestionWithTitle } from '../types/database.type';
+import type { Question, InsertQuestion, ApiResponse, QuestionWithTitle, QuestionStatus, QuestionFailureReason, QuestionRefusalReason, Citation, AnswerHistoryEntry } from '../types/database.type';
 
 export const questionsService = {
   // Create a new question
@@ -7,14 +7,20 @@ export const questionsService = {
     user_id: string;
     title_id: string;
     question_text: string;
-    chapter_limit: number;
-  }): Promise<ApiResponse<Question>> => {
+    chapter_limit: number | null;
+    thread_id?: string | null;
+    parent_question_id?: string | null;
+    asked_ahead?: boolean;
+    refusal_reason?: QuestionRefusalReason | null;
+    refusal_detail?: string | null;
+    screened_at?: string | null;
+  }, status: QuestionStatus = 'pending'): Promise<ApiResponse<Question>> => {
     try {
       const { data, error } = await supabase
         .from('questions')
         .insert({
           ...questionData,
-          status: 'pending',
+          status,
         })
         .select()
         .single();
@@ -86,14 +92,24 @@ export const questionsService = {
     }
   },
 
-  // Update question with AI answer
-  updateQuestionAnswer: async (questionId: string, answerText: string): Promise<ApiResponse<Question>> => {
+  // Update question with AI answer. Pass reusedFromQuestionId when the
+  // answer came from the answer cache rather than a fresh completion.
+  updateQuestionAnswer: async (
+    questionId: string,
+    answerText: string,
+    citations: Citation[] | null = null,
+    reusedFromQuestionId?: string | null
+  ): Promise<ApiResponse<Question>> => {
     try {
       const { data, error } = await supabase
         .from('questions')
         .update({
           answer_text: answerText,
+          citations,
+          answer_reused: reusedFromQuestionId !== undefined,
+          reused_from_question_id: reusedFromQuestionId ?? null,
           status: 'answered',
+          failure_reason: null,
           updated_at: new Date().toISOString(),
         })
         .eq('id', questionId)
@@ -115,16 +131,175 @@ export const questionsService = {
     }
   },
 
-  // Update question status
+  // Withhold an answer that would spoil chapters beyond the question's limit
+  markSpoilerBlocked: async (questionId: string): Promise<ApiResponse<Question>> => {
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .update({
+          answer_text: null,
+          citations: null,
+          status: 'blocked_spoiler',
+          failure_reason: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', questionId)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { 
+        success: true, 
+        data, 
+        message: 'Answer withheld to avoid spoilers' 
+      };
+    } catch (error) {
+      console.error('Mark spoiler blocked error:', error);
+      return { success: false, error: 'Failed to block answer' };
+    }
+  },
+
+  // Record that a question passed screening, so retries and regenerations
+  // don't screen (and charge for) the same text again
+  markScreened: async (questionId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('questions')
+      .update({ screened_at: new Date().toISOString() })
+      .eq('id', questionId);
+
+    if (error) {
+      console.error(`Failed to record screening of question ${questionId}:`, error.message);
+    }
+  },
+
+  // Refuse a question screening rejected, so it is never sent to the model.
+  // questionText replaces the stored text, e.g. to cut down one too long.
+  markRefused: async (
+    questionId: string,
+    reason: QuestionRefusalReason,
+    detail: string | null,
+    questionText?: string
+  ): Promise<ApiResponse<Question>> => {
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .update({
+          ...(questionText !== undefined && { question_text: questionText }),
+          answer_text: null,
+          citations: null,
+          status: 'refused',
+          refusal_reason: reason,
+          refusal_detail: detail,
+          failure_reason: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', questionId)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { 
+        success: true, 
+        data, 
+        message: 'Question refused by screening' 
+      };
+    } catch (error) {
+      console.error('Mark refused error:', error);
+      return { success: false, error: 'Failed to refuse question' };
+    }
+  },
+
+  // Record which prompt template version the answer is generated with
+  setPromptTemplate: async (
+    questionId: string,
+    templateName: string,
+    templateVersion: number
+  ): Promise<ApiResponse<Question>> => {
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .update({
+          prompt_template: templateName,
+          prompt_template_version: templateVersion,
+        })
+        .eq('id', questionId)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Set prompt template error:', error);
+      return { success: false, error: 'Failed to record prompt template' };
+    }
+  },
+
+  // Move the current answer into the question's history and clear it so a
+  // new version can be generated, in one transaction
+  archiveAnswer: async (question: Question): Promise<ApiResponse<Question>> => {
+    try {
+      const { data, error } = await supabase.rpc('archive_question_answer', {
+        p_question_id: question.id,
+        p_answer_version: question.answer_version,
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const archived = Array.isArray(data) ? data[0] : data;
+      if (!archived) {
+        return { success: false, error: 'The answer changed while it was being archived; try again' };
+      }
+
+      return { success: true, data: archived, message: 'Answer archived successfully' };
+    } catch (error) {
+      console.error('Archive answer error:', error);
+      return { success: false, error: 'Failed to archive answer' };
+    }
+  },
+
+  // Earlier answers to a question, oldest first
+  getAnswerHistory: async (questionId: string): Promise<ApiResponse<AnswerHistoryEntry[]>> => {
+    try {
+      const { data, error } = await supabase
+        .from('answer_history')
+        .select('*')
+        .eq('question_id', questionId)
+        .order('answer_version', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      console.error('Get answer history error:', error);
+      return { success: false, error: 'Failed to fetch answer history' };
+    }
+  },
+
+  // Update question status, recording why answering failed when given
   updateQuestionStatus: async (
     questionId: string, 
-    status: 'pending' | 'answered' | 'failed'
+    status: QuestionStatus,
+    failureReason?: QuestionFailureReason
   ): Promise<ApiResponse<Question>> => {
     try {
       const { data, error } = await supabase
         .from('questions')
         .update({
           status,
+          ...(failureReason && { failure_reason: failureReason }),
           updated_at: new Date().toISOString(),
         })
         .eq('id', questionId)
@@ -171,7 +346,7 @@ export const questionsService = {
   // Get questions by status
   getQuestionsByStatus: async (
     userId: string, 
-    status: 'pending' | 'answered' | 'failed'
+    status: QuestionStatus
   ): Promise<ApiResponse<QuestionWithTitle[]>> => {
     try {
       const { data, error } = await supabase
@@ -0,0 +1,322 @@
+import { supabase } from '../lib/supabase';
+import { chaptersService } from './chapters.service';
+import { progressService } from './progress.service';
+import { promptTemplatesService } from './prompt-templates.service';
+import { spoilerGuardService } from './spoiler-guard.service';
+import { completionUsage, usageService } from './usage.service';
+import { getLLMProvider, type ChatCompletionRequest } from '../providers/llm/llm.provider';
+import { tokenizeForSearch } from '../utils/bm25.util';
+import type {
+  ApiResponse,
+  Quiz,
+  QuizAttempt,
+  QuizItem,
+  QuizItemResult,
+  QuizItemType,
+} from '../types/database.type';
+
+export const QUIZ_ITEM_TYPES: QuizItemType[] = ['multiple_choice', 'short_answer'];
+
+export interface QuizOptions {
+  from_chapter?: number;
+  question_count?: number;
+  types?: QuizItemType[];
+}
+
+// A quiz as shown to the reader taking it, without the answer key
+export type PublicQuiz = Omit<Quiz, 'items'> & { items: Array<Omit<QuizItem, 'answer'>> };
+
+export type QuizResponse = string | number | null;
+
+const DEFAULT_QUESTION_COUNT = 5;
+// Chapter text sent to the model is split evenly between the chapters quizzed
+// on; narrow the range with from_chapter for more detailed questions
+const sourceMaxChars = () => parseInt(process.env.QUIZ_SOURCE_MAX_CHARS || '24000');
+// Share of the answer key's words a short answer must contain
+const SHORT_ANSWER_MIN_OVERLAP = 0.6;
+
+// Pull the JSON array out of the model's reply, dropping malformed items and
+// any whose answer comes from outside the quizzed chapters
+const parseItems = (reply: string, fromChapter: number, chapterLimit: number): QuizItem[] => {
+  const start = reply.indexOf('[');
+  const end = reply.lastIndexOf(']');
+  if (start < 0 || end < start) {
+    throw new Error('Quiz generation did not return a JSON array');
+  }
+
+  const parsed = JSON.parse(reply.slice(start, end + 1));
+  if (!Array.isArray(parsed)) {
+    throw new Error('Quiz generation did not return a JSON array');
+  }
+
+  return parsed
+    .filter((item) => item && typeof item.question === 'string' && typeof item.answer === 'string')
+    .map((item): QuizItem => {
+      const options = Array.isArray(item.options)
+        ? item.options.filter((option: unknown) => typeof option === 'string').map((option: string) => option.trim())
+        : null;
+      return {
+        type: item.type === 'multiple_choice' && options ? 'multiple_choice' : 'short_answer',
+        question: item.question.trim(),
+        options: item.type === 'multiple_choice' ? options : null,
+        answer: item.answer.trim(),
+        chapter: Number(item.chapter),
+      };
+    })
+    .filter((item) => {
+      if (!item.question || !item.answer) return false;
+      if (!Number.isInteger(item.chapter) || item.chapter < fromChapter || item.chapter > chapterLimit) return false;
+      return item.type === 'short_answer' || (item.options!.length >= 2 && item.options!.includes(item.answer));
+    });
+};
+
+const itemText = (item: QuizItem): string =>
+  [item.question, ...(item.options || []), item.answer].join('\n');
+
+const hideAnswers = (quiz: Quiz): PublicQuiz => ({
+  ...quiz,
+  items: quiz.items.map(({ answer, ...item }) => item),
+});
+
+// Multiple choice is graded on the option index; short answers pass when
+// they contain most of the answer key's words
+const gradeItem = (item: QuizItem, response: QuizResponse): boolean => {
+  if (response === null || response === '') return false;
+
+  if (item.type === 'multiple_choice') {
+    return typeof response === 'number' && item.options?.[response] === item.answer;
+  }
+
+  const keyTerms = new Set(tokenizeForSearch(item.answer));
+  const responseTerms = new Set(tokenizeForSearch(String(response)));
+  if (keyTerms.size === 0) {
+    return String(response).trim().toLowerCase() === item.answer.toLowerCase();
+  }
+
+  const matched = [...keyTerms].filter((term) => responseTerms.has(term)).length;
+  return matched / keyTerms.size >= SHORT_ANSWER_MIN_OVERLAP;
+};
+
+export const quizService = {
+  // Generate a quiz over the chapters the reader has finished, up to their
+  // current chapter and starting at from_chapter (default: the first)
+  createQuiz: async (
+    userId: string,
+    titleId: string,
+    options: QuizOptions = {}
+  ): Promise<ApiResponse<PublicQuiz>> => {
+    try {
+      const progressResult = await progressService.getProgressByTitle(userId, titleId);
+      const currentChapter = progressResult.data?.current_chapter || 0;
+      if (!progressResult.success || currentChapter < 1) {
+        return { success: false, error: 'No reading progress for this title yet' };
+      }
+
+      const fromChapter = Math.min(options.from_chapter || 1, currentChapter);
+      const questionCount = options.question_count || DEFAULT_QUESTION_COUNT;
+      const types = options.types?.length ? options.types : QUIZ_ITEM_TYPES;
+
+      const chaptersResult = await chaptersService.getChaptersUpTo(titleId, currentChapter);
+      if (!chaptersResult.success || !chaptersResult.data) {
+        return { success: false, error: chaptersResult.error };
+      }
+
+      const chapters = chaptersResult.data.filter(
+        (chapter) => (chapter.order ?? 0) >= fromChapter && chapter.content
+      );
+      if (chapters.length === 0) {
+        return { success: false, error: 'No chapters to quiz on' };
+      }
+
+      const perChapter = Math.floor(sourceMaxChars() / chapters.length);
+      const prompt = await promptTemplatesService.render('quiz', {
+        chapter_limit: currentChapter,
+        question_count: questionCount,
+        question_types: types.map((type) => type.replace('_', ' ')).join(', '),
+        chapters: chapters
+          .map((chapter) => {
+            const order = chapter.order ?? 0;
+            return `### Chapter ${order}: ${chapter.name || `Chapter ${order}`}\n${(chapter.content || '').slice(0, perChapter)}`;
+          })
+          .join('\n\n'),
+      });
+
+      console.log(`📝 Generating quiz on chapters ${fromChapter}-${currentChapter} of title ${titleId}`);
+      const llm = getLLMProvider();
+      const request: ChatCompletionRequest = {
+        messages: [{ role: 'user', content: prompt.text }],
+        temperature: 0.4,
+        maxTokens: 300 * questionCount,
+      };
+      const response = await llm.complete(request);
+      await usageService.record({
+        userId,
+        titleId,
+        kind: 'quiz',
+        provider: llm.name,
+        model: response.model,
+        usage: completionUsage(request, response),
+      });
+
+      // Questions or answers that reveal later chapters are dropped outright;
+      // a redacted answer key could not be graded
+      const index = await spoilerGuardService.getIndex(titleId);
+      const items = parseItems(response.content, fromChapter, currentChapter)
+        .filter((item) => types.includes(item.type))
+        .filter((item) => !spoilerGuardService.check(index, currentChapter, itemText(item)).leaked)
+        .slice(0, questionCount);
+
+      if (items.length === 0) {
+        return { success: false, error: 'Could not generate quiz questions for these chapters' };
+      }
+
+      const { data, error } = await supabase
+        .from('quizzes')
+        .insert({
+          user_id: userId,
+          title_id: titleId,
+          from_chapter: fromChapter,
+          chapter_limit: currentChapter,
+          items,
+          model: response.model,
+          prompt_template_version: prompt.version,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: hideAnswers(data), message: 'Quiz created successfully' };
+    } catch (error) {
+      console.error('Create quiz error:', error);
+      return { success: false, error: 'Failed to create quiz' };
+    }
+  },
+
+  // Full quiz including the answer key; callers decide what to reveal
+  getQuizById: async (quizId: string): Promise<ApiResponse<Quiz>> => {
+    try {
+      const { data, error } = await supabase
+        .from('quizzes')
+        .select('*')
+        .eq('id', quizId)
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Get quiz by ID error:', error);
+      return { success: false, error: 'Failed to fetch quiz' };
+    }
+  },
+
+  hideAnswers,
+
+  // A reader's quizzes, newest first, without answer keys
+  getUserQuizzes: async (userId: string, titleId?: string): Promise<ApiResponse<PublicQuiz[]>> => {
+    try {
+      let query = supabase
+        .from('quizzes')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (titleId) {
+        query = query.eq('title_id', titleId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: (data || []).map(hideAnswers) };
+    } catch (error) {
+      console.error('Get user quizzes error:', error);
+      return { success: false, error: 'Failed to fetch quizzes' };
+    }
+  },
+
+  // Grade a set of responses, one per item in order, and record the score
+  // against the reader's progress for the title
+  submitAttempt: async (
+    quiz: Quiz,
+    userId: string,
+    responses: QuizResponse[]
+  ): Promise<ApiResponse<QuizAttempt>> => {
+    try {
+      if (responses.length !== quiz.items.length) {
+        return {
+          success: false,
+          error: `Expected ${quiz.items.length} answers, got ${responses.length}`,
+        };
+      }
+
+      const results: QuizItemResult[] = quiz.items.map((item, index) => ({
+        index,
+        response: responses[index],
+        correct: gradeItem(item, responses[index]),
+        answer: item.answer,
+      }));
+      const score = results.filter((result) => result.correct).length;
+
+      const { data, error } = await supabase
+        .from('quiz_attempts')
+        .insert({
+          quiz_id: quiz.id,
+          user_id: userId,
+          results,
+          score,
+          max_score: quiz.items.length,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const { error: progressError } = await supabase.rpc('record_quiz_score', {
+        p_user_id: userId,
+        p_title_id: quiz.title_id,
+        p_percentage: Math.round((score / quiz.items.length) * 100),
+      });
+
+      if (progressError) {
+        console.error(`Failed to record quiz score for quiz ${quiz.id}:`, progressError.message);
+      }
+
+      return { success: true, data, message: 'Quiz graded successfully' };
+    } catch (error) {
+      console.error('Submit quiz attempt error:', error);
+      return { success: false, error: 'Failed to grade quiz' };
+    }
+  },
+
+  // Graded attempts at a quiz, oldest first
+  getAttempts: async (quizId: string, userId: string): Promise<ApiResponse<QuizAttempt[]>> => {
+    try {
+      const { data, error } = await supabase
+        .from('quiz_attempts')
+        .select('*')
+        .eq('quiz_id', quizId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      console.error('Get quiz attempts error:', error);
+      return { success: false, error: 'Failed to fetch quiz attempts' };
+    }
+  },
+};
@@ -0,0 +1,235 @@
+import { supabase } from '../lib/supabase';
+import { chaptersService } from './chapters.service';
+import { progressService } from './progress.service';
+import { promptTemplatesService } from './prompt-templates.service';
+import { spoilerGuardService } from './spoiler-guard.service';
+import { completionUsage, quotaSpent, sumUsage, usageService, type CompletionUsage, type UsageSummary } from './usage.service';
+import { getLLMProvider, type ChatCompletionRequest } from '../providers/llm/llm.provider';
+import { contentHash } from '../utils/hash.util';
+import type { ApiResponse, Chapter } from '../types/database.type';
+
+export const RECAP_MODES = ['full', 'last_chapters', 'since_last_session'] as const;
+export type RecapMode = (typeof RECAP_MODES)[number];
+
+export interface RecapChapter {
+  chapter_id: string;
+  order: number;
+  name: string | null;
+  summary: string;
+  cached: boolean;
+}
+
+export interface Recap {
+  title_id: string;
+  mode: RecapMode;
+  from_chapter: number;
+  to_chapter: number;
+  // null until every chapter in range has a summary
+  recap: string | null;
+  chapters: RecapChapter[];
+  // Chapters left unsummarized by this request; ask again to continue
+  pending_chapters: number;
+}
+
+const SUMMARY_MAX_WORDS = 150;
+const DEFAULT_LAST_CHAPTERS = 3;
+
+// New chapter summaries generated per request, so a long book is recapped
+// over a few requests rather than one that blocks for minutes
+const maxNewSummaries = () => parseInt(process.env.RECAP_MAX_NEW_SUMMARIES || '10', 10);
+
+// Summarize a single chapter, reusing the stored summary while the chapter
+// text is unchanged. Returns null for a chapter that would need a new
+// summary when generate is false.
+const summarizeChapter = async (
+  chapter: Chapter,
+  usages: CompletionUsage[],
+  generate: boolean
+): Promise<RecapChapter | null> => {
+  const order = chapter.order ?? 0;
+  const content = chapter.content || '';
+  const hash = contentHash(content);
+
+  const { data: cached } = await supabase
+    .from('chapter_summaries')
+    .select('summary, content_hash')
+    .eq('chapter_id', chapter.id)
+    .maybeSingle();
+
+  if (cached && cached.content_hash === hash) {
+    return { chapter_id: chapter.id, order, name: chapter.name, summary: cached.summary, cached: true };
+  }
+  if (!generate) {
+    return null;
+  }
+
+  const llm = getLLMProvider();
+  const prompt = await promptTemplatesService.render('chapter_summary', {
+    chapter_order: order,
+    chapter_name: chapter.name || `Chapter ${order}`,
+    content,
+    max_words: SUMMARY_MAX_WORDS,
+  });
+
+  console.log(`📖 Summarizing chapter ${order} of title ${chapter.title_id}`);
+  const request: ChatCompletionRequest = {
+    messages: [{ role: 'user', content: prompt.text }],
+    temperature: 0.2,
+    maxTokens: SUMMARY_MAX_WORDS * 2,
+  };
+  const response = await llm.complete(request);
+  usages.push(completionUsage(request, response));
+
+  // The model may know the book; strip anything it let slip from later on
+  const index = await spoilerGuardService.getIndex(chapter.title_id);
+  const check = spoilerGuardService.check(index, order, response.content);
+  const summary = check.leaked ? spoilerGuardService.redact(response.content, check) : response.content.trim();
+
+  const { error } = await supabase
+    .from('chapter_summaries')
+    .upsert(
+      {
+        chapter_id: chapter.id,
+        content_hash: hash,
+        summary,
+        model: response.model,
+        prompt_template_version: prompt.version,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'chapter_id' }
+    );
+
+  if (error) {
+    console.error(`Failed to cache summary for chapter ${chapter.id}:`, error.message);
+  }
+
+  return { chapter_id: chapter.id, order, name: chapter.name, summary, cached: false };
+};
+
+export const recapService = {
+  // Recap of what the reader has read, never going past their current
+  // chapter. "last_chapters" covers the last `count` chapters read and
+  // "since_last_session" the chapters read in the latest reading session.
+  // With quota (the reader's usage when the request was let through), no
+  // further summaries are generated once their token quota is used up.
+  getRecap: async (
+    userId: string,
+    titleId: string,
+    mode: RecapMode = 'full',
+    count: number = DEFAULT_LAST_CHAPTERS,
+    quota: UsageSummary | null = null
+  ): Promise<ApiResponse<Recap>> => {
+    // Summaries generated for this recap are charged to the reader
+    const usages: CompletionUsage[] = [];
+
+    try {
+      const progressResult = await progressService.getProgressByTitle(userId, titleId);
+      const currentChapter = progressResult.data?.current_chapter || 0;
+      if (!progressResult.success || currentChapter < 1) {
+        return { success: false, error: 'No reading progress for this title yet' };
+      }
+
+      let fromChapter = 1;
+      if (mode === 'last_chapters') {
+        fromChapter = Math.max(1, currentChapter - count + 1);
+      } else if (mode === 'since_last_session') {
+        // Without a recorded session there is nothing narrower to offer
+        fromChapter = Math.min(currentChapter, (progressResult.data?.session_start_chapter ?? 0) + 1);
+      }
+
+      const chaptersResult = await chaptersService.getChaptersUpTo(titleId, currentChapter);
+      if (!chaptersResult.success || !chaptersResult.data) {
+        return { success: false, error: chaptersResult.error };
+      }
+
+      const chapters = chaptersResult.data.filter((chapter) => (chapter.order ?? 0) >= fromChapter);
+      if (chapters.length === 0) {
+        return { success: false, error: 'No chapters to recap' };
+      }
+
+      const canSpend = () => !quota || !quotaSpent(quota, sumUsage(usages));
+
+      // One at a time to stay within provider rate limits; cached ones are free
+      const summaries: RecapChapter[] = [];
+      let pending = 0;
+      for (const chapter of chapters) {
+        const generated = summaries.filter((s) => !s.cached).length;
+        const summary = await summarizeChapter(chapter, usages, generated < maxNewSummaries() && canSpend());
+        if (summary) {
+          summaries.push(summary);
+        } else {
+          pending += 1;
+        }
+      }
+
+      if (pending > 0) {
+        return {
+          success: true,
+          data: {
+            title_id: titleId,
+            mode,
+            from_chapter: fromChapter,
+            to_chapter: currentChapter,
+            recap: null,
+            chapters: summaries,
+            pending_chapters: pending,
+          },
+          message: `${pending} chapter${pending === 1 ? '' : 's'} still to summarize; request the recap again to continue`,
+        };
+      }
+
+      let recap = summaries[0].summary;
+      if (summaries.length > 1 && !canSpend()) {
+        recap = summaries.map((s) => s.summary).join('\n\n');
+      } else if (summaries.length > 1) {
+        const prompt = await promptTemplatesService.render('recap', {
+          chapter_limit: currentChapter,
+          scope: `chapters ${fromChapter}-${currentChapter}`,
+          summaries: summaries
+            .map((s) => `Chapter ${s.order}${s.name ? `: ${s.name}` : ''}\n${s.summary}`)
+            .join('\n\n'),
+        });
+
+        const request: ChatCompletionRequest = {
+          messages: [{ role: 'user', content: prompt.text }],
+          temperature: 0.3,
+          maxTokens: 800,
+        };
+        const response = await getLLMProvider().complete(request);
+        usages.push(completionUsage(request, response));
+
+        // Fall back to the chapter summaries if the combined recap leaks
+        const index = await spoilerGuardService.getIndex(titleId);
+        recap = spoilerGuardService.check(index, currentChapter, response.content).leaked
+          ? summaries.map((s) => s.summary).join('\n\n')
+          : response.content.trim();
+      }
+
+      return {
+        success: true,
+        data: {
+          title_id: titleId,
+          mode,
+          from_chapter: fromChapter,
+          to_chapter: currentChapter,
+          recap,
+          chapters: summaries,
+          pending_chapters: 0,
+        },
+      };
+    } catch (error) {
+      console.error('Get recap error:', error);
+      return { success: false, error: 'Failed to build recap' };
+    } finally {
+      const llm = getLLMProvider();
+      await usageService.record({
+        userId,
+        titleId,
+        kind: 'recap',
+        provider: llm.name,
+        model: llm.defaultModel,
+        usage: sumUsage(usages),
+      });
+    }
+  },
+};
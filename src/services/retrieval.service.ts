@@ -0,0 +1,222 @@
+import { supabase } from '../lib/supabase';
+import { embeddingModelsService } from './embedding-models.service';
+import { getEmbedding, type ModelVector } from '../utils/embedding.util';
+import { getVectorStore, type PassageMatch } from '../providers/vector-store/vector-store.provider';
+import type { ApiResponse, RetrievalSettings } from '../types/database.type';
+
+export interface RetrievedPassage {
+  chapter_id: string;
+  name: string | null;
+  order: number;
+  chunk_index: number;
+  content: string;
+  similarity: number; // cosine similarity to the question, 0 if not a vector match
+  lexical_score: number; // full-text score for the question, 0 if not a text match
+  score: number; // fused rank score used for ordering
+}
+
+// A fused candidate with its position in each ranking (1-based, null when
+// the passage did not appear in that ranking)
+export interface RankedPassage extends RetrievedPassage {
+  vector_rank: number | null;
+  text_rank: number | null;
+}
+
+export interface RetrievalExplanation {
+  query: {
+    text: string;
+    embedding_model: string;
+    embedding_dimension: number;
+    embedding_norm: number;
+    vector_store: string;
+  };
+  settings: RetrievalSettings;
+  chapter_limit: number | null;
+  match_count: number;
+  // Every fused candidate within the limit; the first topK are used
+  candidates: RankedPassage[];
+  // Passages that would have ranked among the matches without the limit
+  filtered_by_chapter_limit: RankedPassage[];
+  timings_ms: { embedding: number; search: number };
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  vector_weight: 1,
+  lexical_weight: 1,
+  rrf_k: 60,
+};
+
+// Candidates fetched from each search per passage that makes the context
+const CANDIDATE_MULTIPLIER = 4;
+
+// Weighted reciprocal rank fusion; both lists arrive sorted best first, so
+// list position is the rank
+const fuseRankings = (
+  vectorMatches: PassageMatch[],
+  textMatches: PassageMatch[],
+  settings: RetrievalSettings
+): RankedPassage[] => {
+  const fused = new Map<string, RankedPassage>();
+  const entryFor = (match: PassageMatch): RankedPassage => {
+    let entry = fused.get(match.chunk_id);
+    if (!entry) {
+      entry = {
+        chapter_id: match.chapter_id,
+        name: match.chapter_name,
+        order: match.chapter_order,
+        chunk_index: match.chunk_index,
+        content: match.content,
+        similarity: 0,
+        lexical_score: 0,
+        score: 0,
+        vector_rank: null,
+        text_rank: null,
+      };
+      fused.set(match.chunk_id, entry);
+    }
+    return entry;
+  };
+
+  vectorMatches.forEach((match, i) => {
+    const entry = entryFor(match);
+    entry.similarity = match.score;
+    entry.vector_rank = i + 1;
+    entry.score += settings.vector_weight / (settings.rrf_k + i + 1);
+  });
+  textMatches.forEach((match, i) => {
+    const entry = entryFor(match);
+    entry.lexical_score = match.score;
+    entry.text_rank = i + 1;
+    entry.score += settings.lexical_weight / (settings.rrf_k + i + 1);
+  });
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+};
+
+export const retrievalService = {
+  // Retrieval weights for a title, falling back to the defaults
+  getSettings: async (titleId: string): Promise<RetrievalSettings> => {
+    const { data, error } = await supabase
+      .from('titles')
+      .select('retrieval_settings')
+      .eq('id', titleId)
+      .single();
+
+    if (error) {
+      console.error('Get retrieval settings error:', error.message);
+    }
+
+    return { ...DEFAULT_RETRIEVAL_SETTINGS, ...(data?.retrieval_settings || {}) };
+  },
+
+  updateSettings: async (
+    titleId: string,
+    settings: Partial<RetrievalSettings>
+  ): Promise<ApiResponse<RetrievalSettings>> => {
+    try {
+      const current = await retrievalService.getSettings(titleId);
+      const merged = { ...current, ...settings };
+
+      const { error } = await supabase
+        .from('titles')
+        .update({ retrieval_settings: merged })
+        .eq('id', titleId);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: merged, message: 'Retrieval settings updated successfully' };
+    } catch (error) {
+      console.error('Update retrieval settings error:', error);
+      return { success: false, error: 'Failed to update retrieval settings' };
+    }
+  },
+
+  // Hybrid search over a title's passages up to chapterLimit. The vector
+  // store returns the best vector and full-text matches, which are combined
+  // with weighted reciprocal rank fusion. Pass questionEmbedding if the
+  // caller has already embedded the question; it is only used if it came
+  // from the title's active model.
+  searchPassages: async (
+    titleId: string,
+    question: string,
+    chapterLimit: number | null,
+    topK: number,
+    questionEmbedding?: ModelVector
+  ): Promise<RetrievedPassage[]> => {
+    const store = getVectorStore();
+    const matchCount = topK * CANDIDATE_MULTIPLIER;
+
+    const [settings, model] = await Promise.all([
+      retrievalService.getSettings(titleId),
+      embeddingModelsService.getActiveModel(titleId),
+    ]);
+    const embedding =
+      questionEmbedding?.modelId === model.modelId
+        ? questionEmbedding.vector
+        : await getEmbedding(question, model);
+
+    const [vectorMatches, textMatches] = await Promise.all([
+      store.searchByVector(titleId, model.modelId, embedding, chapterLimit, matchCount),
+      store.searchByText(titleId, model.modelId, question, chapterLimit, matchCount),
+    ]);
+
+    const fused = fuseRankings(vectorMatches, textMatches, settings);
+
+    if (fused.length === 0) {
+      throw new Error(`No passages available within chapter limit: ${chapterLimit}`);
+    }
+
+    return fused.slice(0, topK);
+  },
+
+  // The same search as searchPassages, with every candidate and its ranks,
+  // plus an unlimited search showing what the chapter limit kept out
+  explainSearch: async (
+    titleId: string,
+    question: string,
+    chapterLimit: number | null,
+    topK: number
+  ): Promise<RetrievalExplanation> => {
+    const store = getVectorStore();
+    const matchCount = topK * CANDIDATE_MULTIPLIER;
+
+    const [settings, model] = await Promise.all([
+      retrievalService.getSettings(titleId),
+      embeddingModelsService.getActiveModel(titleId),
+    ]);
+    const { modelId, dimension } = model;
+
+    const embeddingStart = Date.now();
+    const embedding = await getEmbedding(question, model);
+    const embeddingMs = Date.now() - embeddingStart;
+
+    const searchStart = Date.now();
+    const [vectorMatches, textMatches, unlimitedVector, unlimitedText] = await Promise.all([
+      store.searchByVector(titleId, modelId, embedding, chapterLimit, matchCount),
+      store.searchByText(titleId, modelId, question, chapterLimit, matchCount),
+      chapterLimit === null ? [] : store.searchByVector(titleId, modelId, embedding, null, matchCount),
+      chapterLimit === null ? [] : store.searchByText(titleId, modelId, question, null, matchCount),
+    ]);
+    const searchMs = Date.now() - searchStart;
+
+    return {
+      query: {
+        text: question,
+        embedding_model: modelId,
+        embedding_dimension: dimension,
+        embedding_norm: Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0)),
+        vector_store: store.name,
+      },
+      settings,
+      chapter_limit: chapterLimit,
+      match_count: matchCount,
+      candidates: fuseRankings(vectorMatches, textMatches, settings),
+      filtered_by_chapter_limit: fuseRankings(unlimitedVector, unlimitedText, settings).filter(
+        (passage) => chapterLimit !== null && passage.order > chapterLimit
+      ),
+      timings_ms: { embedding: embeddingMs, search: searchMs },
+    };
+  },
+};
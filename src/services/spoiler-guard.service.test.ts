@@ -0,0 +1,107 @@
+import { installMemoryPostgrest, memoryDatabase } from '../eval/memory-postgrest';
+
+// Must run before src/lib/supabase is first imported
+installMemoryPostgrest();
+
+import { spoilerGuardService } from './spoiler-guard.service';
+
+const CHAPTERS = [
+  'At dawn Maren rowed out past Gull Rock. She met old Ansel on the jetty and asked him about the storm.',
+  'That night the keeper Tobias told Ansel Grey that he had sunk the supply boat himself for the insurance money.',
+];
+
+const seedTitle = (): string => {
+  const [title] = memoryDatabase.seed('titles', [{ name: 'Gull Rock', author: 'Test' }]);
+  memoryDatabase.seed(
+    'chapters',
+    CHAPTERS.map((content, i) => ({ title_id: title.id, order: i + 1, name: `Chapter ${i + 1}`, content }))
+  );
+  return title.id;
+};
+
+let titleId: string;
+
+beforeEach(() => {
+  memoryDatabase.reset();
+  titleId = seedTitle();
+});
+
+describe('spoilerGuardService.getIndex', () => {
+  it('records the chapter each name and passage first appears in', async () => {
+    const index = await spoilerGuardService.getIndex(titleId);
+
+    expect(index.entities.get('maren')).toEqual({ name: 'Maren', firstChapter: 1 });
+    expect(index.entities.get('gull rock')).toEqual({ name: 'Gull Rock', firstChapter: 1 });
+    expect(index.entities.get('tobias')).toEqual({ name: 'Tobias', firstChapter: 2 });
+    expect(index.shingles.get('he had sunk the supply boat himself for')).toBe(2);
+  });
+
+  it('reuses the index until a chapter changes', async () => {
+    const first = await spoilerGuardService.getIndex(titleId);
+    expect(await spoilerGuardService.getIndex(titleId)).toBe(first);
+
+    const chapter = memoryDatabase.rows('chapters').find((row) => row.order === 2)!;
+    chapter.content = 'That night the keeper Silas confessed.';
+    chapter.updated_at = new Date(Date.now() + 1000).toISOString();
+
+    const rebuilt = await spoilerGuardService.getIndex(titleId);
+    expect(rebuilt).not.toBe(first);
+    expect(rebuilt.entities.has('silas')).toBe(true);
+    expect(rebuilt.entities.has('tobias')).toBe(false);
+  });
+
+  it('rebuilds an invalidated title', async () => {
+    const first = await spoilerGuardService.getIndex(titleId);
+    spoilerGuardService.invalidateTitle(titleId);
+    expect(await spoilerGuardService.getIndex(titleId)).not.toBe(first);
+  });
+});
+
+describe('spoilerGuardService.check', () => {
+  it('flags names first seen after the chapter limit', async () => {
+    const index = await spoilerGuardService.getIndex(titleId);
+
+    const result = spoilerGuardService.check(index, 1, 'Maren suspects Tobias.');
+    expect(result.leaked).toBe(true);
+    expect(result.entities).toEqual([{ name: 'Tobias', first_chapter: 2 }]);
+
+    expect(spoilerGuardService.check(index, 2, 'Maren suspects Tobias.').leaked).toBe(false);
+    expect(spoilerGuardService.check(index, null, 'Maren suspects Tobias.').leaked).toBe(false);
+  });
+
+  it('allows a fuller name of someone already known', async () => {
+    const index = await spoilerGuardService.getIndex(titleId);
+
+    expect(spoilerGuardService.check(index, 1, 'Ansel Grey waited on the jetty.').entities).toEqual([]);
+  });
+
+  it('merges passages quoted from later chapters into phrases', async () => {
+    const index = await spoilerGuardService.getIndex(titleId);
+
+    const result = spoilerGuardService.check(
+      index,
+      1,
+      'It turns out he had sunk the supply boat himself for the insurance money.'
+    );
+    expect(result.phrases).toEqual([
+      { text: 'he had sunk the supply boat himself for the insurance money', first_chapter: 2 },
+    ]);
+  });
+
+  it('does not flag passages from chapters within the limit', async () => {
+    const index = await spoilerGuardService.getIndex(titleId);
+
+    const result = spoilerGuardService.check(index, 1, 'She met old Ansel on the jetty and asked him about the storm.');
+    expect(result).toEqual({ leaked: false, entities: [], phrases: [] });
+  });
+});
+
+describe('spoilerGuardService.redact', () => {
+  it('removes leaking sentences and redacts leaked names', async () => {
+    const index = await spoilerGuardService.getIndex(titleId);
+    const answer = 'Maren asked Tobias about it. Later, he had sunk the supply boat himself for the insurance money.';
+
+    const result = spoilerGuardService.check(index, 1, answer);
+    expect(spoilerGuardService.redact(answer, result)).toBe('Maren asked [redacted] about it. [spoiler removed]');
+  });
+});
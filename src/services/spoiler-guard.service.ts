@@ -0,0 +1,216 @@
+import { supabase } from '../lib/supabase';
+import { chaptersService } from './chapters.service';
+import { extractEntities, mentionsEntity, normalizeEntity } from '../utils/entities.util';
+import type { SpoilerAction, SpoilerCheckResult } from '../types/database.type';
+
+// Where every entity and word sequence of a title first appears
+export interface SpoilerIndex {
+  entities: Map<string, { name: string; firstChapter: number }>;
+  shingles: Map<string, number>;
+}
+
+export type SpoilerPolicy = 'redact' | 'regenerate' | 'block';
+
+// Answers sharing this many consecutive words with a later chapter (and no
+// earlier one) are treated as leaking its content
+const SHINGLE_SIZE = 8;
+
+// Built indexes by title, least recently used first. Each is tagged with
+// the version of the title's chapters it was built from, so a worker sees
+// chapters changed by another process on its next lookup.
+const indexCache = new Map<string, { version: string; index: Promise<SpoilerIndex> }>();
+
+const maxCachedIndexes = () => parseInt(process.env.SPOILER_INDEX_CACHE_SIZE || '20', 10);
+
+// Changes whenever a chapter of the title is added, edited or deleted
+const chaptersVersion = async (titleId: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('chapters')
+    .select('updated_at')
+    .eq('title_id', titleId);
+
+  if (error) {
+    throw new Error(`Failed to check chapters for spoiler check: ${error.message}`);
+  }
+
+  const latest = (data || []).reduce((max, chapter) => (chapter.updated_at && chapter.updated_at > max ? chapter.updated_at : max), '');
+  return `${(data || []).length}:${latest}`;
+};
+
+const normalizedWords = (text: string): string[] => text.toLowerCase().match(/[a-z0-9']+/g) || [];
+
+const shinglesOf = (words: string[]): string[] => {
+  const shingles: string[] = [];
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.push(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+};
+
+const buildIndex = async (titleId: string): Promise<SpoilerIndex> => {
+  const chaptersResponse = await chaptersService.getChaptersByTitle(titleId);
+  if (!chaptersResponse.success || !chaptersResponse.data) {
+    throw new Error(`Failed to load chapters for spoiler check: ${chaptersResponse.error}`);
+  }
+
+  const index: SpoilerIndex = { entities: new Map(), shingles: new Map() };
+
+  // Chapters come back in reading order, so the first sighting wins
+  chaptersResponse.data.forEach((chapter) => {
+    const order = chapter.order ?? 0;
+    const content = chapter.content || '';
+
+    extractEntities(content).forEach((_count, name) => {
+      const key = normalizeEntity(name);
+      if (!index.entities.has(key)) {
+        index.entities.set(key, { name, firstChapter: order });
+      }
+    });
+
+    shinglesOf(normalizedWords(content)).forEach((shingle) => {
+      if (!index.shingles.has(shingle)) {
+        index.shingles.set(shingle, order);
+      }
+    });
+  });
+
+  return index;
+};
+
+export const spoilerGuardService = {
+  // Policy applied when an answer leaks, from SPOILER_POLICY
+  getPolicy: (): SpoilerPolicy => {
+    const policy = process.env.SPOILER_POLICY;
+    return policy === 'redact' || policy === 'block' ? policy : 'regenerate';
+  },
+
+  // Load (and cache) the first-appearance index for a title, rebuilding it
+  // once the title's chapters have changed
+  getIndex: async (titleId: string): Promise<SpoilerIndex> => {
+    const version = await chaptersVersion(titleId);
+
+    let cached = indexCache.get(titleId);
+    indexCache.delete(titleId);
+    if (!cached || cached.version !== version) {
+      const index = buildIndex(titleId);
+      cached = { version, index };
+      index.catch(() => {
+        if (indexCache.get(titleId)?.index === index) indexCache.delete(titleId);
+      });
+    }
+    indexCache.set(titleId, cached);
+
+    // Evict the least recently used indexes beyond the cap
+    while (indexCache.size > maxCachedIndexes()) {
+      indexCache.delete(indexCache.keys().next().value as string);
+    }
+
+    return cached.index;
+  },
+
+  // Drop this process's cached index of a title straight away, e.g. when
+  // it is deleted; other processes notice changes through the version
+  invalidateTitle: (titleId: string): void => {
+    indexCache.delete(titleId);
+  },
+
+  // Find entities and passages in text that first appear after chapterLimit
+  check: (index: SpoilerIndex, chapterLimit: number | null, text: string): SpoilerCheckResult => {
+    const limit = chapterLimit || Infinity;
+
+    const allowedNames = new Set<string>();
+    index.entities.forEach((entity, key) => {
+      if (entity.firstChapter <= limit) allowedNames.add(key);
+    });
+
+    const entities: SpoilerCheckResult['entities'] = [];
+    index.entities.forEach((entity, key) => {
+      if (entity.firstChapter <= limit) return;
+
+      // "Harry Potter" first named later is not a spoiler if "Harry" is known
+      const words = key.split(' ');
+      if (words.length > 1 && (allowedNames.has(words[0]) || allowedNames.has(words[words.length - 1]))) {
+        return;
+      }
+
+      if (mentionsEntity(text, entity.name)) {
+        entities.push({ name: entity.name, first_chapter: entity.firstChapter });
+      }
+    });
+
+    // Merge overlapping leaked shingles into whole phrases
+    const words = normalizedWords(text);
+    const phrases: SpoilerCheckResult['phrases'] = [];
+    let runStart = -1;
+    let runEnd = -1;
+    let runChapter = 0;
+
+    shinglesOf(words).forEach((shingle, i) => {
+      const firstChapter = index.shingles.get(shingle);
+      if (firstChapter === undefined || firstChapter <= limit) return;
+
+      if (runStart >= 0 && i <= runEnd) {
+        runEnd = i + SHINGLE_SIZE;
+        runChapter = Math.min(runChapter, firstChapter);
+      } else {
+        if (runStart >= 0) {
+          phrases.push({ text: words.slice(runStart, runEnd).join(' '), first_chapter: runChapter });
+        }
+        runStart = i;
+        runEnd = i + SHINGLE_SIZE;
+        runChapter = firstChapter;
+      }
+    });
+    if (runStart >= 0) {
+      phrases.push({ text: words.slice(runStart, runEnd).join(' '), first_chapter: runChapter });
+    }
+
+    return {
+      leaked: entities.length > 0 || phrases.length > 0,
+      entities,
+      phrases,
+    };
+  },
+
+  // Remove leaked names and any sentence that repeats later content
+  redact: (text: string, result: SpoilerCheckResult): string => {
+    const sentences = text.match(/[^.!?\n]+[.!?]*\s*|\n+/g) || [text];
+
+    return sentences
+      .map((sentence) => {
+        const sentenceWords = normalizedWords(sentence).join(' ');
+        if (result.phrases.some((phrase) => sentenceWords.includes(phrase.text.split(' ').slice(0, SHINGLE_SIZE).join(' ')))) {
+          return '[spoiler removed] ';
+        }
+        return result.entities.reduce((redacted, entity) => {
+          const escaped = entity.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+          return redacted.replace(new RegExp(`\\b${escaped}\\b`, 'gi'), '[redacted]');
+        }, sentence);
+      })
+      .join('')
+      .trim();
+  },
+
+  // Keep an audit trail of leaks; not exposed to readers since it names spoilers
+  recordCheck: async (
+    questionId: string,
+    chapterLimit: number | null,
+    result: SpoilerCheckResult,
+    action: SpoilerAction
+  ): Promise<void> => {
+    const { error } = await supabase
+      .from('spoiler_checks')
+      .insert({
+        question_id: questionId,
+        chapter_limit: chapterLimit,
+        leaked: result.leaked,
+        action,
+        entities: result.entities,
+        phrases: result.phrases,
+      });
+
+    if (error) {
+      console.error(`Failed to record spoiler check for question ${questionId}:`, error.message);
+    }
+  },
+};
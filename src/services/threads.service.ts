@@ -0,0 +1,241 @@
+import { supabase } from '../lib/supabase';
+import type {
+  ApiResponse,
+  Question,
+  QuestionThread,
+  QuestionThreadWithQuestions,
+} from '../types/database.type';
+
+export interface ThreadPlacement {
+  thread: QuestionThread;
+  chapter_limit: number;
+  parent_question_id: string | null;
+}
+
+export const threadsService = {
+  // Start a new thread for a user and title
+  createThread: async (
+    userId: string,
+    titleId: string,
+    chapterLimit: number
+  ): Promise<ApiResponse<QuestionThread>> => {
+    try {
+      const { data, error } = await supabase
+        .from('question_threads')
+        .insert({
+          user_id: userId,
+          title_id: titleId,
+          chapter_limit: chapterLimit,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data, message: 'Thread created successfully' };
+    } catch (error) {
+      console.error('Create thread error:', error);
+      return { success: false, error: 'Failed to create thread' };
+    }
+  },
+
+  // Get a thread with its questions in the order they were asked
+  getThreadById: async (threadId: string): Promise<ApiResponse<QuestionThreadWithQuestions>> => {
+    try {
+      const { data, error } = await supabase
+        .from('question_threads')
+        .select(`
+          *,
+          titles(id, name, coverImage),
+          questions(*)
+        `)
+        .eq('id', threadId)
+        .order('created_at', { referencedTable: 'questions', ascending: true })
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Get thread by ID error:', error);
+      return { success: false, error: 'Failed to fetch thread' };
+    }
+  },
+
+  // Get a user's threads, most recently active first
+  getUserThreads: async (userId: string, titleId?: string): Promise<ApiResponse<QuestionThreadWithQuestions[]>> => {
+    try {
+      let query = supabase
+        .from('question_threads')
+        .select(`
+          *,
+          titles(id, name, coverImage)
+        `)
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+      if (titleId) {
+        query = query.eq('title_id', titleId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      console.error('Get user threads error:', error);
+      return { success: false, error: 'Failed to fetch threads' };
+    }
+  },
+
+  // Raise (or lower) the chapter limit of a thread. Only called when the
+  // user explicitly asks for it.
+  updateChapterLimit: async (threadId: string, chapterLimit: number): Promise<ApiResponse<QuestionThread>> => {
+    try {
+      const { data, error } = await supabase
+        .from('question_threads')
+        .update({
+          chapter_limit: chapterLimit,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', threadId)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data, message: 'Thread chapter limit updated successfully' };
+    } catch (error) {
+      console.error('Update thread chapter limit error:', error);
+      return { success: false, error: 'Failed to update thread chapter limit' };
+    }
+  },
+
+  // Work out which thread a new question belongs to and at what chapter
+  // limit it may be answered. A follow-up inherits its parent's thread and
+  // may not ask beyond the thread's limit unless raiseChapterLimit is set.
+  placeQuestion: async (params: {
+    userId: string;
+    titleId: string;
+    chapterLimit?: number;
+    parentQuestionId?: string;
+    raiseChapterLimit?: boolean;
+  }): Promise<ApiResponse<ThreadPlacement>> => {
+    try {
+      const { userId, titleId, chapterLimit, parentQuestionId, raiseChapterLimit } = params;
+
+      if (!parentQuestionId) {
+        if (!chapterLimit) {
+          return { success: false, error: 'chapter_limit is required when starting a thread' };
+        }
+        const threadResult = await threadsService.createThread(userId, titleId, chapterLimit);
+        if (!threadResult.success || !threadResult.data) {
+          return { success: false, error: threadResult.error };
+        }
+        return {
+          success: true,
+          data: { thread: threadResult.data, chapter_limit: chapterLimit, parent_question_id: null },
+        };
+      }
+
+      const { data: parent, error: parentError } = await supabase
+        .from('questions')
+        .select('*')
+        .eq('id', parentQuestionId)
+        .single();
+
+      if (parentError || !parent) {
+        return { success: false, error: 'Parent question not found' };
+      }
+      if (parent.user_id !== userId || parent.title_id !== titleId) {
+        return { success: false, error: 'Parent question belongs to another user or title' };
+      }
+
+      // Questions asked before threads existed get a thread on first follow-up
+      let thread: QuestionThread | null = null;
+      if (parent.thread_id) {
+        const { data, error } = await supabase
+          .from('question_threads')
+          .select('*')
+          .eq('id', parent.thread_id)
+          .single();
+        if (error) {
+          return { success: false, error: error.message };
+        }
+        thread = data;
+      } else {
+        const threadResult = await threadsService.createThread(userId, titleId, parent.chapter_limit || 1);
+        if (!threadResult.success || !threadResult.data) {
+          return { success: false, error: threadResult.error };
+        }
+        thread = threadResult.data;
+        await supabase.from('questions').update({ thread_id: thread.id }).eq('id', parent.id);
+      }
+
+      if (!thread) {
+        return { success: false, error: 'Thread not found' };
+      }
+
+      const requestedLimit = chapterLimit ?? thread.chapter_limit;
+      if (requestedLimit > thread.chapter_limit) {
+        if (!raiseChapterLimit) {
+          return {
+            success: false,
+            error: `chapter_limit ${requestedLimit} is beyond this thread's limit of ${thread.chapter_limit}; set raise_chapter_limit to ask ahead`,
+          };
+        }
+        const raised = await threadsService.updateChapterLimit(thread.id, requestedLimit);
+        if (!raised.success || !raised.data) {
+          return { success: false, error: raised.error };
+        }
+        thread = raised.data;
+      }
+
+      return {
+        success: true,
+        data: { thread, chapter_limit: requestedLimit, parent_question_id: parent.id },
+      };
+    } catch (error) {
+      console.error('Place question in thread error:', error);
+      return { success: false, error: 'Failed to resolve question thread' };
+    }
+  },
+
+  // Answered questions asked earlier in the same thread, oldest first.
+  // Turns answered with a higher chapter limit than this question's are
+  // left out, since their answers may draw on chapters it must not see.
+  getHistory: async (question: Question, maxTurns: number): Promise<Question[]> => {
+    if (!question.thread_id) return [];
+
+    let query = supabase
+      .from('questions')
+      .select('*')
+      .eq('thread_id', question.thread_id)
+      .eq('status', 'answered')
+      .lt('created_at', question.created_at);
+
+    if (question.chapter_limit !== null) {
+      query = query.lte('chapter_limit', question.chapter_limit);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(maxTurns);
+
+    if (error) {
+      console.error('Get thread history error:', error.message);
+      return [];
+    }
+
+    return (data || []).reverse();
+  },
+};
@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import { spoilerGuardService } from './spoiler-guard.service';
 import type { Title, InsertTitle, ApiResponse } from '../types/database.type';
 import { getSignedCoverUrl } from '../utils/signed-url';
 
@@ -196,6 +197,8 @@ export const titlesService = {
         return { success: false, error: error.message };
       }
 
+      spoilerGuardService.invalidateTitle(titleId);
+
       return { 
         success: true, 
         message: 'Title deleted successfully' 
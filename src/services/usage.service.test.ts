@@ -0,0 +1,97 @@
+import { completionUsage, loadPlans, planOf, quotaSpent, sumUsage, CompletionUsage, UsageSummary } from './usage.service';
+
+jest.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const usage = (totalTokens: number, estimated = false): CompletionUsage => ({
+  completions: 1,
+  promptTokens: totalTokens - 10,
+  completionTokens: 10,
+  totalTokens,
+  estimated,
+});
+
+const summary = (dailyTokens: number, monthlyTokens: number): UsageSummary => ({
+  plan: 'free',
+  daily: { requests: 1, tokens: dailyTokens, request_limit: 50, token_limit: 1000, resets_at: '' },
+  monthly: { requests: 1, tokens: monthlyTokens, request_limit: 1000, token_limit: 5000, resets_at: '' },
+  exceeded: null,
+});
+
+afterEach(() => {
+  delete process.env.USAGE_PLANS;
+  loadPlans();
+});
+
+describe('loadPlans', () => {
+  it('merges configured limits over the built-in plans', () => {
+    process.env.USAGE_PLANS = '{"free":{"daily_requests":20},"team":{"monthly_tokens":null,"daily_tokens":5000}}';
+
+    const plans = loadPlans();
+    expect(plans.free).toEqual({ daily_requests: 20, daily_tokens: 100000, monthly_requests: 1000, monthly_tokens: 2000000 });
+    expect(plans.team).toEqual({ daily_requests: null, daily_tokens: 5000, monthly_requests: null, monthly_tokens: null });
+    expect(planOf({ app_metadata: { plan: 'team' } })).toBe('team');
+  });
+
+  it.each([
+    ['not JSON', '{free:', 'not valid JSON'],
+    ['not an object', '[]', 'must be a JSON object'],
+    ['a plan that is not an object', '{"free":10}', 'must be an object of limits'],
+    ['an unknown limit', '{"free":{"daily_request":10}}', 'unknown limit "daily_request"'],
+    ['a negative limit', '{"free":{"daily_tokens":-1}}', 'non-negative integer'],
+    ['a fractional limit', '{"free":{"daily_tokens":1.5}}', 'non-negative integer'],
+    ['a string limit', '{"free":{"daily_tokens":"100"}}', 'non-negative integer'],
+  ])('rejects %s', (_case, config, message) => {
+    process.env.USAGE_PLANS = config;
+    expect(() => loadPlans()).toThrow(message);
+  });
+});
+
+describe('planOf', () => {
+  it('falls back to the default plan for unknown plans', () => {
+    expect(planOf({ app_metadata: { plan: 'pro' } })).toBe('pro');
+    expect(planOf({ app_metadata: { plan: 'platinum' } })).toBe('free');
+    expect(planOf(null)).toBe('free');
+  });
+});
+
+describe('completionUsage', () => {
+  const request = { messages: [{ role: 'user' as const, content: 'x'.repeat(40) }] };
+
+  it('uses the usage the provider reported', () => {
+    const result = { content: 'answer', model: 'gpt-4o', usage: { promptTokens: 30, completionTokens: 5, totalTokens: 35 } };
+    expect(completionUsage(request, result)).toEqual({ completions: 1, promptTokens: 30, completionTokens: 5, totalTokens: 35, estimated: false });
+  });
+
+  it('estimates from the text when the provider reported none', () => {
+    const result = { content: 'x'.repeat(8), model: 'gpt-4o' };
+    expect(completionUsage(request, result)).toEqual({ completions: 1, promptTokens: 10, completionTokens: 2, totalTokens: 12, estimated: true });
+  });
+});
+
+describe('sumUsage', () => {
+  it('adds up completions and tokens and keeps any estimate flag', () => {
+    expect(sumUsage([usage(100), usage(50, true)])).toEqual({
+      completions: 2,
+      promptTokens: 130,
+      completionTokens: 20,
+      totalTokens: 150,
+      estimated: true,
+    });
+    expect(sumUsage([])).toEqual({ completions: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false });
+  });
+});
+
+describe('quotaSpent', () => {
+  it('is spent once either token limit is reached', () => {
+    expect(quotaSpent(summary(900, 900), usage(99))).toBe(false);
+    expect(quotaSpent(summary(900, 900), usage(100))).toBe(true);
+    expect(quotaSpent(summary(0, 4990), usage(10))).toBe(true);
+  });
+
+  it('is never spent without token limits', () => {
+    const unlimited = summary(10 ** 9, 10 ** 9);
+    unlimited.daily.token_limit = null;
+    unlimited.monthly.token_limit = null;
+    expect(quotaSpent(unlimited, usage(10 ** 6))).toBe(false);
+  });
+});
@@ -0,0 +1,240 @@
+import { supabase } from '../lib/supabase';
+import { isAdmin } from '../middleware/auth.middleware';
+import { countTokens } from '../utils/tokens.util';
+import type { ChatCompletionRequest, ChatCompletionResult } from '../providers/llm/llm.provider';
+import type { ApiResponse, UsageKind } from '../types/database.type';
+
+// Limits per plan; null means unlimited
+export interface PlanQuota {
+  daily_requests: number | null;
+  daily_tokens: number | null;
+  monthly_requests: number | null;
+  monthly_tokens: number | null;
+}
+
+export interface CompletionUsage {
+  completions: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean;
+}
+
+export interface UsageWindow {
+  requests: number;
+  tokens: number;
+  request_limit: number | null;
+  token_limit: number | null;
+  resets_at: string;
+}
+
+export interface UsageSummary {
+  plan: string;
+  daily: UsageWindow;
+  monthly: UsageWindow;
+  // The first limit reached, if any
+  exceeded: { window: 'daily' | 'monthly'; limit: 'requests' | 'tokens'; resets_at: string } | null;
+}
+
+const DEFAULT_PLAN = 'free';
+
+const BUILT_IN_PLANS: Record<string, PlanQuota> = {
+  free: { daily_requests: 50, daily_tokens: 100000, monthly_requests: 1000, monthly_tokens: 2000000 },
+  pro: { daily_requests: 500, daily_tokens: 1000000, monthly_requests: 10000, monthly_tokens: 20000000 },
+  unlimited: { daily_requests: null, daily_tokens: null, monthly_requests: null, monthly_tokens: null },
+};
+
+const QUOTA_LIMITS: Array<keyof PlanQuota> = ['daily_requests', 'daily_tokens', 'monthly_requests', 'monthly_tokens'];
+
+let loadedPlans: Record<string, PlanQuota> | null = null;
+
+// USAGE_PLANS holds JSON such as {"free":{"daily_requests":20},"team":{...}};
+// each plan's limits are merged over the built-in ones of the same name.
+// Throws on malformed config rather than letting quota checks fail open.
+export const loadPlans = (): Record<string, PlanQuota> => {
+  let configured: unknown;
+  try {
+    configured = JSON.parse(process.env.USAGE_PLANS || '{}');
+  } catch (error) {
+    throw new Error(`USAGE_PLANS is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!configured || typeof configured !== 'object' || Array.isArray(configured)) {
+    throw new Error('USAGE_PLANS must be a JSON object of plans');
+  }
+
+  const merged = { ...BUILT_IN_PLANS };
+  Object.entries(configured).forEach(([plan, limits]) => {
+    if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+      throw new Error(`USAGE_PLANS: plan "${plan}" must be an object of limits`);
+    }
+    Object.entries(limits).forEach(([limit, value]) => {
+      if (!QUOTA_LIMITS.includes(limit as keyof PlanQuota)) {
+        throw new Error(`USAGE_PLANS: plan "${plan}" has unknown limit "${limit}"`);
+      }
+      if (value !== null && !(Number.isInteger(value) && (value as number) >= 0)) {
+        throw new Error(`USAGE_PLANS: ${plan}.${limit} must be a non-negative integer or null`);
+      }
+    });
+    merged[plan] = { ...BUILT_IN_PLANS.unlimited, ...BUILT_IN_PLANS[plan], ...limits };
+  });
+
+  loadedPlans = merged;
+  return merged;
+};
+
+const plans = (): Record<string, PlanQuota> => loadedPlans || loadPlans();
+
+// Plans are set by admins in app_metadata; users can't edit it themselves.
+// Unknown plans fall back to the default one.
+export const planOf = (user: any): string => {
+  const plan = user?.app_metadata?.plan || process.env.DEFAULT_USAGE_PLAN || DEFAULT_PLAN;
+  return plan in plans() ? plan : DEFAULT_PLAN;
+};
+
+// Token usage reported by the provider, or an estimate from the text when
+// it reports none (e.g. the mock provider)
+export const completionUsage = (request: ChatCompletionRequest, result: ChatCompletionResult): CompletionUsage => {
+  if (result.usage) {
+    return { completions: 1, ...result.usage, estimated: false };
+  }
+  const promptTokens = countTokens(request.messages.map((message) => message.content).join('\n'), result.model);
+  const completionTokens = countTokens(result.content, result.model);
+  return { completions: 1, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+};
+
+export const sumUsage = (usages: CompletionUsage[]): CompletionUsage =>
+  usages.reduce(
+    (sum, usage) => ({
+      completions: sum.completions + usage.completions,
+      promptTokens: sum.promptTokens + usage.promptTokens,
+      completionTokens: sum.completionTokens + usage.completionTokens,
+      totalTokens: sum.totalTokens + usage.totalTokens,
+      estimated: sum.estimated || usage.estimated,
+    }),
+    { completions: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false }
+  );
+
+// Quota windows are calendar days and months in UTC
+const windowStarts = (now: Date) => ({
+  day: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+  nextDay: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+  month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+  nextMonth: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+});
+
+const reached = (used: number, limit: number | null) => limit !== null && used >= limit;
+
+const exceededIn = (name: 'daily' | 'monthly', window: UsageWindow): UsageSummary['exceeded'] =>
+  reached(window.requests, window.request_limit)
+    ? { window: name, limit: 'requests', resets_at: window.resets_at }
+    : reached(window.tokens, window.token_limit)
+      ? { window: name, limit: 'tokens', resets_at: window.resets_at }
+      : null;
+
+// Whether the tokens an action has spent so far use up what its user had
+// left when it was let through. Its request was already counted then.
+export const quotaSpent = (summary: UsageSummary, spent: CompletionUsage): boolean =>
+  reached(summary.daily.tokens + spent.totalTokens, summary.daily.token_limit) ||
+  reached(summary.monthly.tokens + spent.totalTokens, summary.monthly.token_limit);
+
+export const usageService = {
+  // Add one action to the ledger. Never throws: a failed write is logged
+  // rather than failing the answer the user already got. Actions that made
+  // no completions still count as a request when they used tokens, e.g. an
+  // answer reused from the cache, which only embedded the question.
+  record: async (entry: {
+    userId: string;
+    kind: UsageKind;
+    provider: string;
+    model: string;
+    usage: CompletionUsage;
+    questionId?: string | null;
+    titleId?: string | null;
+  }): Promise<void> => {
+    if (entry.usage.completions === 0 && entry.usage.totalTokens === 0) return;
+
+    const { error } = await supabase
+      .from('usage_events')
+      .insert({
+        user_id: entry.userId,
+        kind: entry.kind,
+        question_id: entry.questionId ?? null,
+        title_id: entry.titleId ?? null,
+        provider: entry.provider,
+        model: entry.model,
+        completions: entry.usage.completions,
+        prompt_tokens: entry.usage.promptTokens,
+        completion_tokens: entry.usage.completionTokens,
+        total_tokens: entry.usage.totalTokens,
+        estimated: entry.usage.estimated,
+      });
+
+    if (error) {
+      console.error(`Failed to record ${entry.kind} usage for user ${entry.userId}:`, error.message);
+    }
+  },
+
+  // The quota a user has used up, for work done on their behalf outside a
+  // request, such as a queued answer. Like requireQuota, admins are never
+  // limited and usage that can't be read lets the work go ahead.
+  exceededFor: async (userId: string): Promise<UsageSummary['exceeded']> => {
+    const { data, error } = await supabase.auth.admin.getUserById(userId);
+    if (error || !data.user) {
+      console.error(`Quota check of user ${userId} skipped:`, error?.message);
+      return null;
+    }
+    if (isAdmin(data.user)) {
+      return null;
+    }
+
+    const result = await usageService.getSummary(data.user);
+    if (!result.success || !result.data) {
+      console.error(`Quota check of user ${userId} skipped:`, result.error);
+      return null;
+    }
+    return result.data.exceeded;
+  },
+
+  // Current daily and monthly usage against the user's plan
+  getSummary: async (user: any): Promise<ApiResponse<UsageSummary>> => {
+    try {
+      const plan = planOf(user);
+      const quota = plans()[plan];
+      const starts = windowStarts(new Date());
+
+      const { data, error } = await supabase.rpc('usage_totals', {
+        p_user_id: user.id,
+        p_day_start: starts.day.toISOString(),
+        p_month_start: starts.month.toISOString(),
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      const totals = (Array.isArray(data) ? data[0] : data) || {};
+      const daily: UsageWindow = {
+        requests: Number(totals.day_requests || 0),
+        tokens: Number(totals.day_tokens || 0),
+        request_limit: quota.daily_requests,
+        token_limit: quota.daily_tokens,
+        resets_at: starts.nextDay.toISOString(),
+      };
+      const monthly: UsageWindow = {
+        requests: Number(totals.month_requests || 0),
+        tokens: Number(totals.month_tokens || 0),
+        request_limit: quota.monthly_requests,
+        token_limit: quota.monthly_tokens,
+        resets_at: starts.nextMonth.toISOString(),
+      };
+
+      // A used-up monthly quota outlasts a daily one, so it is reported first
+      const exceeded = exceededIn('monthly', monthly) || exceededIn('daily', daily);
+
+      return { success: true, data: { plan, daily, monthly, exceeded } };
+    } catch (error) {
+      console.error('Get usage summary error:', error);
+      return { success: false, error: 'Failed to fetch usage' };
+    }
+  },
+};
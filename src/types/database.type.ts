@@ -26,6 +26,9 @@ export type Database = {
           coverImage: string | null;
           author: string | null;
           description?: string | null;
+          retrieval_settings: Partial<RetrievalSettings>;
+          embedding_model: string | null;
+          embedding_dimension: number | null;
           created_at: string;
         };
         Insert: {
@@ -34,6 +37,9 @@ export type Database = {
           coverImage?: string | null;
           author: string | null;
           description?: string | null;
+          retrieval_settings?: Partial<RetrievalSettings>;
+          embedding_model?: string | null;
+          embedding_dimension?: number | null;
           created_at?: string;
         };
         Update: {
@@ -42,6 +48,9 @@ export type Database = {
           coverImage?: string | null;
           author: string | null;
           description?: string | null;
+          retrieval_settings?: Partial<RetrievalSettings>;
+          embedding_model?: string | null;
+          embedding_dimension?: number | null;
           created_at?: string;
         };
       };
@@ -53,7 +62,20 @@ export type Database = {
           chapter_limit: number | null;
           question_text: string | null;
           answer_text: string | null;
-          status: string | null;
+          status: QuestionStatus | null;
+          citations: Citation[] | null;
+          thread_id: string | null;
+          parent_question_id: string | null;
+          answer_reused: boolean;
+          reused_from_question_id: string | null;
+          prompt_template: string | null;
+          prompt_template_version: number | null;
+          answer_version: number;
+          asked_ahead: boolean;
+          failure_reason: QuestionFailureReason | null;
+          refusal_reason: QuestionRefusalReason | null;
+          refusal_detail: string | null;
+          screened_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -64,7 +86,20 @@ export type Database = {
           chapter_limit?: number | null;
           question_text?: string | null;
           answer_text?: string | null;
-          status?: string | null;
+          status?: QuestionStatus | null;
+          citations?: Citation[] | null;
+          thread_id?: string | null;
+          parent_question_id?: string | null;
+          answer_reused?: boolean;
+          reused_from_question_id?: string | null;
+          prompt_template?: string | null;
+          prompt_template_version?: number | null;
+          answer_version?: number;
+          asked_ahead?: boolean;
+          failure_reason?: QuestionFailureReason | null;
+          refusal_reason?: QuestionRefusalReason | null;
+          refusal_detail?: string | null;
+          screened_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -75,7 +110,46 @@ export type Database = {
           chapter_limit?: number | null;
           question_text?: string | null;
           answer_text?: string | null;
-          status?: string | null;
+          status?: QuestionStatus | null;
+          citations?: Citation[] | null;
+          thread_id?: string | null;
+          parent_question_id?: string | null;
+          answer_reused?: boolean;
+          reused_from_question_id?: string | null;
+          prompt_template?: string | null;
+          prompt_template_version?: number | null;
+          answer_version?: number;
+          asked_ahead?: boolean;
+          failure_reason?: QuestionFailureReason | null;
+          refusal_reason?: QuestionRefusalReason | null;
+          refusal_detail?: string | null;
+          screened_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      question_threads: {
+        Row: {
+          id: string;
+          user_id: string;
+          title_id: string;
+          chapter_limit: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          title_id: string;
+          chapter_limit: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          title_id?: string;
+          chapter_limit?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -87,6 +161,10 @@ export type Database = {
           order: number | null;
           name: string | null;
           content: string | null;
+          embedding_status: EmbeddingStatus;
+          embedding_error: string | null;
+          embedded_at: string | null;
+          updated_at: string;
         };
         Insert: {
           id?: string;
@@ -94,6 +172,10 @@ export type Database = {
           order?: number | null;
           name?: string | null;
           content?: string | null;
+          embedding_status?: EmbeddingStatus;
+          embedding_error?: string | null;
+          embedded_at?: string | null;
+          updated_at?: string;
         };
         Update: {
           id?: string;
@@ -101,6 +183,10 @@ export type Database = {
           order?: number | null;
           name?: string | null;
           content?: string | null;
+          embedding_status?: EmbeddingStatus;
+          embedding_error?: string | null;
+          embedded_at?: string | null;
+          updated_at?: string;
         };
       };
       user_progress: {
@@ -111,6 +197,12 @@ export type Database = {
           current_chapter?: number;
           total_chapters?: number;
           progress_percentage?: number;
+          session_start_chapter?: number | null;
+          session_started_at?: string | null;
+          quizzes_taken?: number;
+          last_quiz_score?: number | null;
+          best_quiz_score?: number | null;
+          last_quiz_at?: string | null;
           created_at: string;
           updated_at?: string;
         };
@@ -121,6 +213,12 @@ export type Database = {
           current_chapter?: number;
           total_chapters?: number;
           progress_percentage?: number;
+          session_start_chapter?: number | null;
+          session_started_at?: string | null;
+          quizzes_taken?: number;
+          last_quiz_score?: number | null;
+          best_quiz_score?: number | null;
+          last_quiz_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -131,6 +229,12 @@ export type Database = {
           current_chapter?: number;
           total_chapters?: number;
           progress_percentage?: number;
+          session_start_chapter?: number | null;
+          session_started_at?: string | null;
+          quizzes_taken?: number;
+          last_quiz_score?: number | null;
+          best_quiz_score?: number | null;
+          last_quiz_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -152,24 +256,599 @@ export type Database = {
           embedding?: number[];
         };
       };
+      jobs: {
+        Row: {
+          id: string;
+          type: string;
+          payload: Record<string, any>;
+          status: JobStatus;
+          attempts: number;
+          max_attempts: number;
+          last_error: string | null;
+          run_at: string;
+          locked_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          type: string;
+          payload?: Record<string, any>;
+          status?: JobStatus;
+          attempts?: number;
+          max_attempts?: number;
+          last_error?: string | null;
+          run_at?: string;
+          locked_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          type?: string;
+          payload?: Record<string, any>;
+          status?: JobStatus;
+          attempts?: number;
+          max_attempts?: number;
+          last_error?: string | null;
+          run_at?: string;
+          locked_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      spoiler_checks: {
+        Row: {
+          id: string;
+          question_id: string;
+          chapter_limit: number | null;
+          leaked: boolean;
+          action: SpoilerAction;
+          entities: SpoilerCheckResult["entities"];
+          phrases: SpoilerCheckResult["phrases"];
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          question_id: string;
+          chapter_limit?: number | null;
+          leaked: boolean;
+          action: SpoilerAction;
+          entities?: SpoilerCheckResult["entities"];
+          phrases?: SpoilerCheckResult["phrases"];
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          question_id?: string;
+          chapter_limit?: number | null;
+          leaked?: boolean;
+          action?: SpoilerAction;
+          entities?: SpoilerCheckResult["entities"];
+          phrases?: SpoilerCheckResult["phrases"];
+          created_at?: string;
+        };
+      };
+      answer_cache: {
+        Row: {
+          id: string;
+          title_id: string;
+          chapter_limit: number;
+          question_text: string;
+          question_embedding: number[];
+          embedding_model: string;
+          answer_text: string;
+          citations: Citation[] | null;
+          source_question_id: string | null;
+          hit_count: number;
+          last_hit_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          title_id: string;
+          chapter_limit: number;
+          question_text: string;
+          question_embedding: number[];
+          embedding_model: string;
+          answer_text: string;
+          citations?: Citation[] | null;
+          source_question_id?: string | null;
+          hit_count?: number;
+          last_hit_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          title_id?: string;
+          chapter_limit?: number;
+          question_text?: string;
+          question_embedding?: number[];
+          embedding_model?: string;
+          answer_text?: string;
+          citations?: Citation[] | null;
+          source_question_id?: string | null;
+          hit_count?: number;
+          last_hit_at?: string | null;
+          created_at?: string;
+        };
+      };
+      prompt_templates: {
+        Row: {
+          id: string;
+          name: string;
+          version: number;
+          template: string;
+          description: string | null;
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          version: number;
+          template: string;
+          description?: string | null;
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          version?: number;
+          template?: string;
+          description?: string | null;
+          is_active?: boolean;
+          created_at?: string;
+        };
+      };
+      answer_history: {
+        Row: {
+          id: string;
+          question_id: string;
+          answer_version: number;
+          answer_text: string | null;
+          citations: Citation[] | null;
+          status: QuestionStatus | null;
+          prompt_template: string | null;
+          prompt_template_version: number | null;
+          answer_reused: boolean;
+          answered_at: string | null;
+          archived_at: string;
+        };
+        Insert: {
+          id?: string;
+          question_id: string;
+          answer_version: number;
+          answer_text?: string | null;
+          citations?: Citation[] | null;
+          status?: QuestionStatus | null;
+          prompt_template?: string | null;
+          prompt_template_version?: number | null;
+          answer_reused?: boolean;
+          answered_at?: string | null;
+          archived_at?: string;
+        };
+        Update: {
+          id?: string;
+          question_id?: string;
+          answer_version?: number;
+          answer_text?: string | null;
+          citations?: Citation[] | null;
+          status?: QuestionStatus | null;
+          prompt_template?: string | null;
+          prompt_template_version?: number | null;
+          answer_reused?: boolean;
+          answered_at?: string | null;
+          archived_at?: string;
+        };
+      };
+      answer_feedback: {
+        Row: {
+          id: string;
+          question_id: string;
+          user_id: string;
+          answer_version: number;
+          rating: AnswerRating | null;
+          spoiled: boolean;
+          wrong_answer: boolean;
+          comment: string | null;
+          prompt_template: string | null;
+          prompt_template_version: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          question_id: string;
+          user_id: string;
+          answer_version: number;
+          rating?: AnswerRating | null;
+          spoiled?: boolean;
+          wrong_answer?: boolean;
+          comment?: string | null;
+          prompt_template?: string | null;
+          prompt_template_version?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          question_id?: string;
+          user_id?: string;
+          answer_version?: number;
+          rating?: AnswerRating | null;
+          spoiled?: boolean;
+          wrong_answer?: boolean;
+          comment?: string | null;
+          prompt_template?: string | null;
+          prompt_template_version?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      chapter_summaries: {
+        Row: {
+          id: string;
+          chapter_id: string;
+          content_hash: string;
+          summary: string;
+          model: string;
+          prompt_template_version: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          chapter_id: string;
+          content_hash: string;
+          summary: string;
+          model: string;
+          prompt_template_version?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          chapter_id?: string;
+          content_hash?: string;
+          summary?: string;
+          model?: string;
+          prompt_template_version?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      chapter_glossary: {
+        Row: {
+          id: string;
+          chapter_id: string;
+          title_id: string;
+          content_hash: string;
+          entities: GlossaryMention[];
+          model: string;
+          prompt_template_version: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          chapter_id: string;
+          title_id: string;
+          content_hash: string;
+          entities?: GlossaryMention[];
+          model: string;
+          prompt_template_version?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          chapter_id?: string;
+          title_id?: string;
+          content_hash?: string;
+          entities?: GlossaryMention[];
+          model?: string;
+          prompt_template_version?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      quizzes: {
+        Row: {
+          id: string;
+          user_id: string;
+          title_id: string;
+          from_chapter: number;
+          chapter_limit: number;
+          items: QuizItem[];
+          model: string;
+          prompt_template_version: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          title_id: string;
+          from_chapter: number;
+          chapter_limit: number;
+          items?: QuizItem[];
+          model: string;
+          prompt_template_version?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          title_id?: string;
+          from_chapter?: number;
+          chapter_limit?: number;
+          items?: QuizItem[];
+          model?: string;
+          prompt_template_version?: number | null;
+          created_at?: string;
+        };
+      };
+      quiz_attempts: {
+        Row: {
+          id: string;
+          quiz_id: string;
+          user_id: string;
+          results: QuizItemResult[];
+          score: number;
+          max_score: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          quiz_id: string;
+          user_id: string;
+          results?: QuizItemResult[];
+          score: number;
+          max_score: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          quiz_id?: string;
+          user_id?: string;
+          results?: QuizItemResult[];
+          score?: number;
+          max_score?: number;
+          created_at?: string;
+        };
+      };
+      embedding_migrations: {
+        Row: {
+          id: string;
+          title_id: string;
+          from_model: string | null;
+          to_model: string;
+          to_dimension: number;
+          status: EmbeddingMigrationStatus;
+          chapters_total: number;
+          chapters_done: number;
+          error: string | null;
+          started_at: string | null;
+          completed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          title_id: string;
+          from_model?: string | null;
+          to_model: string;
+          to_dimension: number;
+          status?: EmbeddingMigrationStatus;
+          chapters_total?: number;
+          chapters_done?: number;
+          error?: string | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: EmbeddingMigrationStatus;
+          chapters_total?: number;
+          chapters_done?: number;
+          error?: string | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          updated_at?: string;
+        };
+      };
+      usage_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          kind: UsageKind;
+          question_id: string | null;
+          title_id: string | null;
+          provider: string;
+          model: string;
+          completions: number;
+          prompt_tokens: number;
+          completion_tokens: number;
+          total_tokens: number;
+          estimated: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          kind: UsageKind;
+          question_id?: string | null;
+          title_id?: string | null;
+          provider: string;
+          model: string;
+          completions?: number;
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          total_tokens?: number;
+          estimated?: boolean;
+          created_at?: string;
+        };
+      };
+      chapter_chunks: {
+        Row: {
+          id: string;
+          chapter_id: string;
+          chunk_index: number;
+          content: string;
+          start_offset: number;
+          end_offset: number;
+          embedding: number[];
+          embedding_model: string;
+          embedding_dimension: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          chapter_id: string;
+          chunk_index: number;
+          content: string;
+          start_offset: number;
+          end_offset: number;
+          embedding: number[];
+          embedding_model: string;
+          embedding_dimension: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          chapter_id?: string;
+          chunk_index?: number;
+          content?: string;
+          start_offset?: number;
+          end_offset?: number;
+          embedding?: number[];
+          embedding_model?: string;
+          embedding_dimension?: number;
+          created_at?: string;
+        };
+      };
     };
   };
 };
 
+export type EmbeddingStatus = "pending" | "processing" | "ready" | "failed";
+
+export type UsageKind = "answer" | "quiz" | "recap" | "moderation";
+
+export type EmbeddingMigrationStatus = "queued" | "running" | "completed" | "failed";
+
+export const QUESTION_STATUSES = [
+  "pending",
+  "queued",
+  "processing",
+  "answered",
+  "failed",
+  "blocked_spoiler",
+  "refused",
+] as const;
+export type QuestionStatus = (typeof QUESTION_STATUSES)[number];
+
+// Why answering last failed: the AI service being down or overloaded
+// ("upstream_unavailable") is worth retrying later; "error" is anything else
+export type QuestionFailureReason = "upstream_unavailable" | "error" | "quota_exceeded";
+
+// Why screening refused a question before it reached the model
+export type QuestionRefusalReason = "too_long" | "prompt_injection" | "unsafe_content";
+
+// Where part of an answer came from; marker is the [n] used in the answer text
+export interface Citation {
+  marker: number;
+  chapter_id: string;
+  chapter_order: number;
+  chapter_name: string | null;
+  chunk_index: number;
+  quote: string;
+  similarity: number;
+}
+
+// Hybrid retrieval tuning, stored per title. Scores are fused with
+// reciprocal rank fusion: weight / (rrf_k + rank) summed over both rankings.
+export interface RetrievalSettings {
+  vector_weight: number;
+  lexical_weight: number;
+  rrf_k: number;
+}
+
+export type SpoilerAction = "none" | "redacted" | "regenerated" | "blocked";
+
+export interface SpoilerCheckResult {
+  leaked: boolean;
+  entities: Array<{ name: string; first_chapter: number }>;
+  phrases: Array<{ text: string; first_chapter: number }>;
+}
+
+export type JobStatus = "queued" | "processing" | "completed" | "dead";
+
+// Thumbs down / thumbs up
+export type AnswerRating = -1 | 1;
+
+export type GlossaryEntityType = "character" | "place" | "faction" | "other";
+
+// An entity as described in a single chapter
+export interface GlossaryMention {
+  name: string;
+  type: GlossaryEntityType;
+  description: string;
+}
+
+export type QuizItemType = "multiple_choice" | "short_answer";
+
+export interface QuizItem {
+  type: QuizItemType;
+  question: string;
+  options: string[] | null; // multiple choice only
+  answer: string; // the correct option, or the short answer key
+  chapter: number; // chapter the answer comes from
+}
+
+// How one quiz item was answered in an attempt
+export interface QuizItemResult {
+  index: number;
+  response: string | number | null; // option index or free text
+  correct: boolean;
+  answer: string;
+}
+
 // Helper types for easier usage
 export type User = Database["public"]["Tables"]["users"]["Row"];
 export type Title = Database["public"]["Tables"]["titles"]["Row"];
 export type Chapter = Database["public"]["Tables"]["chapters"]["Row"];
 export type Question = Database["public"]["Tables"]["questions"]["Row"];
+export type QuestionThread = Database["public"]["Tables"]["question_threads"]["Row"];
 export type UserProgress = Database["public"]["Tables"]["user_progress"]["Row"];
 export type ChapterEmbedding = Database["public"]["Tables"]["chapter_embeddings"]["Row"];
+export type ChapterChunk = Database["public"]["Tables"]["chapter_chunks"]["Row"];
+export type EmbeddingMigration = Database["public"]["Tables"]["embedding_migrations"]["Row"];
+export type UsageEvent = Database["public"]["Tables"]["usage_events"]["Row"];
+export type Job = Database["public"]["Tables"]["jobs"]["Row"];
+export type SpoilerCheck = Database["public"]["Tables"]["spoiler_checks"]["Row"];
+export type AnswerCacheEntry = Database["public"]["Tables"]["answer_cache"]["Row"];
+export type PromptTemplate = Database["public"]["Tables"]["prompt_templates"]["Row"];
+export type AnswerHistoryEntry = Database["public"]["Tables"]["answer_history"]["Row"];
+export type AnswerFeedback = Database["public"]["Tables"]["answer_feedback"]["Row"];
+export type ChapterSummary = Database["public"]["Tables"]["chapter_summaries"]["Row"];
+export type ChapterGlossary = Database["public"]["Tables"]["chapter_glossary"]["Row"];
+export type Quiz = Database["public"]["Tables"]["quizzes"]["Row"];
+export type QuizAttempt = Database["public"]["Tables"]["quiz_attempts"]["Row"];
 
 export type InsertUser = Database["public"]["Tables"]["users"]["Insert"];
 export type InsertTitle = Database["public"]["Tables"]["titles"]["Insert"];
 export type InsertChapter = Database["public"]["Tables"]["chapters"]["Insert"];
 export type InsertQuestion = Database["public"]["Tables"]["questions"]["Insert"];
+export type InsertQuestionThread = Database["public"]["Tables"]["question_threads"]["Insert"];
 export type InsertUserProgress = Database["public"]["Tables"]["user_progress"]["Insert"];
 export type InsertChapterEmbedding = Database["public"]["Tables"]["chapter_embeddings"]["Insert"];
+export type InsertChapterChunk = Database["public"]["Tables"]["chapter_chunks"]["Insert"];
+export type InsertJob = Database["public"]["Tables"]["jobs"]["Insert"];
+export type InsertAnswerFeedback = Database["public"]["Tables"]["answer_feedback"]["Insert"];
+export type InsertUsageEvent = Database["public"]["Tables"]["usage_events"]["Insert"];
 
 // API Response types
 export interface ApiResponse<T = any> {
@@ -184,6 +863,11 @@ export interface QuestionWithTitle extends Question {
   titles?: Title;
 }
 
+export interface QuestionThreadWithQuestions extends QuestionThread {
+  titles?: Title;
+  questions?: Question[];
+}
+
 export interface UserProgressWithTitle extends UserProgress {
   titles?: Title;
 }
@@ -194,4 +878,8 @@ export interface ChapterWithEmbedding extends Chapter {
 
 export interface ChapterEmbeddingWithChapter extends ChapterEmbedding {
   chapters?: Chapter;
+}
+
+export interface ChapterChunkWithChapter extends ChapterChunk {
+  chapters?: Pick<Chapter, "id" | "name" | "order" | "title_id">;
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { bm25Scores, tokenizeForSearch } from "./bm25.util";
+
+describe("tokenizeForSearch", () => {
+  it("lowercases and drops stop words", () => {
+    expect(tokenizeForSearch("Where did the Keeper hide the boat's log?")).toEqual(["keeper", "hide", "boat's", "log"]);
+  });
+});
+
+describe("bm25Scores", () => {
+  const documents = [
+    "The keeper lit the lamp on Gull Rock.",
+    "Maren rowed the boat past the rock.",
+    "The supply boat sank in the storm, the boat was lost.",
+  ];
+
+  it("scores documents without the query terms as zero", () => {
+    expect(bm25Scores("lighthouse", documents)).toEqual([0, 0, 0]);
+  });
+
+  it("ranks documents by term frequency", () => {
+    const [keeper, maren, supply] = bm25Scores("boat", documents);
+
+    expect(keeper).toBe(0);
+    expect(supply).toBeGreaterThan(maren);
+    expect(maren).toBeGreaterThan(0);
+  });
+
+  it("weights rare terms above common ones", () => {
+    const [keeper, maren] = bm25Scores("rock keeper", documents);
+
+    expect(keeper).toBeGreaterThan(maren);
+  });
+
+  it("handles an empty collection", () => {
+    expect(bm25Scores("boat", [])).toEqual([]);
+  });
+});
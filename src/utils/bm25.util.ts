@@ -0,0 +1,45 @@
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "at", "for", "with", "by",
+  "is", "are", "was", "were", "be", "been", "it", "its", "this", "that", "as", "from",
+  "what", "who", "whom", "which", "when", "where", "why", "how", "do", "does", "did",
+]);
+
+export const tokenizeForSearch = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9']+/g) || []).filter((token) => !STOP_WORDS.has(token));
+
+export interface Bm25Options {
+  k1?: number;
+  b?: number;
+}
+
+// Okapi BM25 score of each document for the query, in document order
+export const bm25Scores = (query: string, documents: string[], options: Bm25Options = {}): number[] => {
+  const k1 = options.k1 ?? 1.2;
+  const b = options.b ?? 0.75;
+
+  const docTokens = documents.map(tokenizeForSearch);
+  const avgLength = docTokens.reduce((sum, tokens) => sum + tokens.length, 0) / (docTokens.length || 1);
+  const queryTerms = [...new Set(tokenizeForSearch(query))];
+
+  const documentFrequency = new Map<string, number>();
+  docTokens.forEach((tokens) => {
+    new Set(tokens).forEach((token) => {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    });
+  });
+
+  return docTokens.map((tokens) => {
+    const termFrequency = new Map<string, number>();
+    tokens.forEach((token) => termFrequency.set(token, (termFrequency.get(token) || 0) + 1));
+
+    return queryTerms.reduce((score, term) => {
+      const tf = termFrequency.get(term) || 0;
+      if (tf === 0) return score;
+
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (docTokens.length - df + 0.5) / (df + 0.5));
+      const norm = tf + k1 * (1 - b + (b * tokens.length) / (avgLength || 1));
+      return score + idf * ((tf * (k1 + 1)) / norm);
+    }, 0);
+  });
+};
@@ -0,0 +1,51 @@
+import { chunkText } from "./chunking.util";
+
+const paragraph = (word: string, length: number) => `${word} `.repeat(length / (word.length + 1)).trim();
+
+describe("chunkText", () => {
+  it("keeps short text in one chunk", () => {
+    const text = "First paragraph.\n\nSecond paragraph.";
+
+    expect(chunkText(text)).toEqual([{ index: 0, content: text, start: 0, end: text.length }]);
+  });
+
+  it("ignores blank paragraphs", () => {
+    expect(chunkText("\n\n   \n\n")).toEqual([]);
+  });
+
+  it("packs whole paragraphs and overlaps neighbouring chunks", () => {
+    const paragraphs = ["alpha", "bravo", "charlie", "delta"].map((word) => paragraph(word, 90));
+    const text = paragraphs.join("\n\n");
+
+    const chunks = chunkText(text, { maxChars: 200, overlapChars: 100 });
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      `${paragraphs[0]}\n\n${paragraphs[1]}`,
+      `${paragraphs[1]}\n\n${paragraphs[2]}`,
+      `${paragraphs[2]}\n\n${paragraphs[3]}`,
+    ]);
+    chunks.forEach((chunk) => {
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.content);
+      expect(chunk.content.length).toBeLessThanOrEqual(200);
+    });
+  });
+
+  it("splits long paragraphs on sentence boundaries", () => {
+    const sentence = "The lamp burned all night. ";
+    const text = sentence.repeat(20).trim();
+
+    const chunks = chunkText(text, { maxChars: 100, overlapChars: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => {
+      expect(chunk.content.length).toBeLessThanOrEqual(100);
+      expect(chunk.content).toMatch(/^The lamp.*night\.$/);
+    });
+  });
+
+  it("cuts a sentence longer than a chunk", () => {
+    const chunks = chunkText("x".repeat(250), { maxChars: 100, overlapChars: 0 });
+
+    expect(chunks.map((chunk) => chunk.content.length)).toEqual([100, 100, 50]);
+  });
+});
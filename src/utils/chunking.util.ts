@@ -0,0 +1,121 @@
+export interface TextChunk {
+  index: number;
+  content: string;
+  start: number; // character offset in the original text (inclusive)
+  end: number; // character offset in the original text (exclusive)
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const DEFAULT_MAX_CHARS = 1500;
+const DEFAULT_OVERLAP_CHARS = 300;
+
+// Paragraphs are separated by one or more blank lines
+const paragraphSpans = (text: string): Span[] => {
+  const spans: Span[] = [];
+  const separator = /\n\s*\n/g;
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = separator.exec(text)) !== null) {
+    spans.push({ start: cursor, end: match.index });
+    cursor = match.index + match[0].length;
+  }
+  spans.push({ start: cursor, end: text.length });
+
+  return spans.filter((span) => text.slice(span.start, span.end).trim().length > 0);
+};
+
+// Break a paragraph that is longer than maxChars on sentence boundaries,
+// falling back to hard cuts for very long sentences.
+const splitLongSpan = (text: string, span: Span, maxChars: number): Span[] => {
+  const pieces: Span[] = [];
+  let start = span.start;
+
+  while (span.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars);
+    const lastBreak = Math.max(
+      window.lastIndexOf(". "),
+      window.lastIndexOf("! "),
+      window.lastIndexOf("? "),
+      window.lastIndexOf("\n")
+    );
+    const cut = lastBreak > maxChars / 2 ? start + lastBreak + 1 : start + maxChars;
+    pieces.push({ start, end: cut });
+    start = cut;
+    while (start < span.end && /\s/.test(text[start])) start++;
+  }
+
+  if (start < span.end) {
+    pieces.push({ start, end: span.end });
+  }
+
+  return pieces;
+};
+
+// Split text into overlapping passages built from whole paragraphs.
+// Consecutive passages share trailing paragraphs of up to overlapChars so
+// that facts spanning a paragraph boundary are still retrievable.
+export const chunkText = (text: string, options: ChunkOptions = {}): TextChunk[] => {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = options.overlapChars ?? DEFAULT_OVERLAP_CHARS;
+
+  const units = paragraphSpans(text).flatMap((span) =>
+    span.end - span.start > maxChars ? splitLongSpan(text, span, maxChars) : [span]
+  );
+
+  const chunks: TextChunk[] = [];
+  let current: Span[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const start = current[0].start;
+    const end = current[current.length - 1].end;
+    chunks.push({
+      index: chunks.length,
+      content: text.slice(start, end).trim(),
+      start,
+      end,
+    });
+
+    // Carry the tail of this passage into the next one. The last paragraph
+    // is always carried when it fits in half a passage, even if it is longer
+    // than overlapChars, so neighbouring passages never share nothing.
+    const carried: Span[] = [];
+    let carriedChars = 0;
+    for (let i = current.length - 1; i > 0; i--) {
+      const length = current[i].end - current[i].start;
+      const fits = carriedChars + length <= overlapChars;
+      const isLast = carried.length === 0 && length <= maxChars / 2;
+      if (!fits && !isLast) break;
+      carried.unshift(current[i]);
+      carriedChars += length;
+    }
+    current = carried;
+  };
+
+  units.forEach((unit) => {
+    if (current.length > 0 && unit.end - current[0].start > maxChars) {
+      flush();
+      // Drop the overlap if it would not leave room for this unit
+      if (current.length > 0 && unit.end - current[0].start > maxChars) {
+        current = [];
+      }
+    }
+    current.push(unit);
+  });
+
+  // Every pass pushes a fresh unit after flushing, so what is left always
+  // holds new text
+  flush();
+
+  return chunks;
+};
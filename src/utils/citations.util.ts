@@ -0,0 +1,67 @@
+import type { Citation } from "../types/database.type";
+
+export interface CitablePassage {
+  marker: number;
+  chapter_id: string;
+  order: number;
+  name: string | null;
+  chunk_index: number;
+  content: string;
+  similarity: number;
+}
+
+const MAX_QUOTE_CHARS = 300;
+
+const words = (text: string): Set<string> =>
+  new Set((text.toLowerCase().match(/[a-z0-9']+/g) || []).filter((word) => word.length > 3));
+
+// Pick the sentence of a passage that shares the most words with the answer
+export const bestQuote = (passage: string, answer: string): string => {
+  const answerWords = words(answer);
+  const sentences = passage.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || [passage];
+
+  let best = sentences[0];
+  let bestScore = -1;
+  sentences.forEach((sentence) => {
+    const sentenceWords = words(sentence);
+    let score = 0;
+    sentenceWords.forEach((word) => {
+      if (answerWords.has(word)) score++;
+    });
+    if (score > bestScore) {
+      best = sentence;
+      bestScore = score;
+    }
+  });
+
+  const quote = best.trim();
+  return quote.length > MAX_QUOTE_CHARS ? `${quote.slice(0, MAX_QUOTE_CHARS - 3).trimEnd()}...` : quote;
+};
+
+// Marker numbers such as [2] or [1, 3] referenced in the answer
+export const citedMarkers = (answer: string): Set<number> => {
+  const markers = new Set<number>();
+  const pattern = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(answer)) !== null) {
+    match[1].split(",").forEach((n) => markers.add(parseInt(n.trim())));
+  }
+  return markers;
+};
+
+// Build citations for the passages the answer refers to. If the model did
+// not cite anything, every passage it was given is listed.
+export const buildCitations = (passages: CitablePassage[], answer: string): Citation[] => {
+  const markers = citedMarkers(answer);
+  const cited = passages.filter((passage) => markers.has(passage.marker));
+
+  return (cited.length > 0 ? cited : passages).map((passage) => ({
+    marker: passage.marker,
+    chapter_id: passage.chapter_id,
+    chapter_order: passage.order,
+    chapter_name: passage.name,
+    chunk_index: passage.chunk_index,
+    quote: bestQuote(passage.content, answer),
+    similarity: Number(passage.similarity.toFixed(4)),
+  }));
+};
@@ -0,0 +1,65 @@
+import { assembleContext, ContextCandidate } from "./context-builder.util";
+
+// 4 characters per token
+const MODEL = "gpt-4o";
+
+const passage = (order: number, chunkIndex: number, content: string): ContextCandidate => ({
+  chapter_id: `chapter-${order}`,
+  order,
+  name: `Part ${order}`,
+  chunk_index: chunkIndex,
+  content,
+  similarity: 0.5,
+});
+
+// 25 characters, so 100 of them are 625 tokens
+const sentences = (count: number) => "The gull circled twice. ".repeat(count).trim();
+
+describe("assembleContext", () => {
+  it("puts the passages back in reading order and numbers them", () => {
+    const context = assembleContext(
+      [passage(3, 0, "The storm broke."), passage(1, 2, "The boat left."), passage(1, 0, "Dawn came.")],
+      1000,
+      MODEL
+    );
+
+    expect(context.passages.map((p) => [p.order, p.chunk_index, p.marker])).toEqual([
+      [1, 0, 1],
+      [1, 2, 2],
+      [3, 0, 3],
+    ]);
+    expect(context.text).toBe(
+      "Chapter 1: Part 1\n[1] Dawn came.\n\n[2] The boat left.\n\nChapter 3: Part 3\n[3] The storm broke."
+    );
+    expect(context.report.dropped).toEqual([]);
+    expect(context.report.trimmed).toEqual([]);
+  });
+
+  it("trims a passage that does not fit when enough of the budget is left", () => {
+    const context = assembleContext([passage(1, 0, sentences(100))], 200, MODEL);
+
+    expect(context.passages).toHaveLength(1);
+    expect(context.passages[0].content).toMatch(/twice\. \[\.\.\.\]$/);
+    expect(context.report.trimmed).toHaveLength(1);
+    expect(context.report.included[0].tokens).toBeLessThanOrEqual(200);
+  });
+
+  it("drops a passage that does not fit and keeps packing shorter ones", () => {
+    const context = assembleContext(
+      [passage(1, 0, "x".repeat(400)), passage(2, 0, sentences(100)), passage(3, 0, "y".repeat(100))],
+      172,
+      MODEL
+    );
+
+    expect(context.passages.map((p) => p.order)).toEqual([1, 3]);
+    expect(context.report.dropped.map((ref) => ref.order)).toEqual([2]);
+    expect(context.report.included.map((ref) => ref.tokens)).toEqual([112, 37]);
+  });
+
+  it("reports the tokens of the assembled text", () => {
+    const context = assembleContext([passage(1, 0, "Dawn came.")], 1000, MODEL);
+
+    expect(context.report.budget_tokens).toBe(1000);
+    expect(context.report.used_tokens).toBe(Math.ceil(context.text.length / 4));
+  });
+});
@@ -0,0 +1,113 @@
+import { charsPerToken, countTokens } from "./tokens.util";
+import type { CitablePassage } from "./citations.util";
+
+export type ContextCandidate = Omit<CitablePassage, "marker">;
+
+export interface PassageRef {
+  chapter_id: string;
+  order: number;
+  chunk_index: number;
+  tokens: number;
+}
+
+export interface ContextReport {
+  budget_tokens: number;
+  used_tokens: number;
+  included: PassageRef[];
+  trimmed: PassageRef[]; // included, but cut short to fit
+  dropped: PassageRef[]; // did not fit at all
+}
+
+export interface AssembledContext {
+  text: string;
+  passages: CitablePassage[];
+  report: ContextReport;
+}
+
+// Heading, marker and spacing around each passage
+const PASSAGE_OVERHEAD_TOKENS = 12;
+// Don't bother trimming a passage down to less than this
+const MIN_TRIMMED_TOKENS = 80;
+
+const refOf = (passage: ContextCandidate, tokens: number): PassageRef => ({
+  chapter_id: passage.chapter_id,
+  order: passage.order,
+  chunk_index: passage.chunk_index,
+  tokens,
+});
+
+// Cut text to roughly maxTokens, preferring to end on a sentence boundary
+const trimToTokens = (text: string, maxTokens: number, model: string): string => {
+  // Leave room for the " [...]" marker
+  const maxChars = Math.floor(maxTokens * charsPerToken(model)) - 6;
+  const cut = text.slice(0, maxChars);
+  const lastSentenceEnd = Math.max(cut.lastIndexOf(". "), cut.lastIndexOf("! "), cut.lastIndexOf("? "));
+  const trimmed = lastSentenceEnd > maxChars / 2 ? cut.slice(0, lastSentenceEnd + 1) : cut;
+  return `${trimmed.trimEnd()} [...]`;
+};
+
+// Numbered passages grouped under their chapter headings, in reading order
+const formatContext = (passages: CitablePassage[]): string =>
+  passages
+    .reduce<Array<{ heading: string; entries: string[] }>>((sections, passage) => {
+      const heading = `Chapter ${passage.order}: ${passage.name || `Chapter ${passage.order}`}`;
+      const entry = `[${passage.marker}] ${passage.content}`;
+      const last = sections[sections.length - 1];
+      if (last && last.heading === heading) {
+        last.entries.push(entry);
+      } else {
+        sections.push({ heading, entries: [entry] });
+      }
+      return sections;
+    }, [])
+    .map((section) => `${section.heading}\n${section.entries.join("\n\n")}`)
+    .join("\n\n");
+
+// Fill a token budget with the most relevant passages first. A passage that
+// doesn't fit is trimmed if enough room is left, otherwise dropped, and
+// packing carries on so later, shorter passages can still use the room.
+// Included passages are then put back in reading order and numbered for
+// citation.
+export const assembleContext = (
+  candidates: ContextCandidate[], // best first
+  budgetTokens: number,
+  model: string
+): AssembledContext => {
+  const report: ContextReport = {
+    budget_tokens: budgetTokens,
+    used_tokens: 0,
+    included: [],
+    trimmed: [],
+    dropped: [],
+  };
+  const selected: ContextCandidate[] = [];
+  let remaining = budgetTokens;
+
+  candidates.forEach((passage) => {
+    const tokens = countTokens(passage.content, model) + PASSAGE_OVERHEAD_TOKENS;
+
+    if (tokens <= remaining) {
+      selected.push(passage);
+      report.included.push(refOf(passage, tokens));
+      remaining -= tokens;
+    } else if (remaining - PASSAGE_OVERHEAD_TOKENS >= MIN_TRIMMED_TOKENS) {
+      const content = trimToTokens(passage.content, remaining - PASSAGE_OVERHEAD_TOKENS, model);
+      const trimmedTokens = countTokens(content, model) + PASSAGE_OVERHEAD_TOKENS;
+      selected.push({ ...passage, content });
+      report.included.push(refOf(passage, trimmedTokens));
+      report.trimmed.push(refOf(passage, tokens));
+      remaining -= trimmedTokens;
+    } else {
+      report.dropped.push(refOf(passage, tokens));
+    }
+  });
+
+  const passages: CitablePassage[] = selected
+    .sort((a, b) => a.order - b.order || a.chunk_index - b.chunk_index)
+    .map((passage, i) => ({ ...passage, marker: i + 1 }));
+
+  const text = formatContext(passages);
+  report.used_tokens = countTokens(text, model);
+
+  return { text, passages, report };
+};
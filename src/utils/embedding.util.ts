@@ -1,38 +1,49 @@
-import axios from "axios";
+import {
+  getEmbeddingProvider,
+  getEmbeddingProviderForModel,
+  type EmbeddingProvider,
+} from "../providers/embedding/embedding.provider";
 
-const HF_API_TOKEN = process.env.HUGGINGFACE_API_TOKEN!;
+// Model id and dimension, as stored with each vector and on each title
+export interface EmbeddingModel {
+  modelId: string;
+  dimension: number;
+}
 
-export const getEmbedding = async (text: string): Promise<number[]> => {
-  try {
-    const response = await axios.post(
-          "https://api-inference.huggingface.co/models/BAAI/bge-large-en-v1.5", // ✅ NEW
-
-      {
-        inputs: [text],
-        options: { wait_for_model: true },
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${HF_API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    const embedding = response.data[0]; // Should be an array of numbers
-
-    if (!embedding || !Array.isArray(embedding)) {
-      console.error("⚠️ Unexpected Hugging Face embedding response:", response.data);
-      throw new Error("Invalid embedding response from Hugging Face");
-    }
+// A vector together with the model that produced it
+export interface ModelVector {
+  modelId: string;
+  vector: number[];
+}
+
+// The configured provider unless a specific model is asked for
+const providerFor = (model?: EmbeddingModel): EmbeddingProvider =>
+  model ? getEmbeddingProviderForModel(model.modelId, model.dimension) : getEmbeddingProvider();
+
+export const getEmbedding = async (text: string, model?: EmbeddingModel): Promise<number[]> => {
+  const [embedding] = await providerFor(model).embed([text]);
+  return embedding;
+};
+
+// Inputs sent to the provider per request
+const EMBEDDING_BATCH_SIZE = 16;
+
+export const getEmbeddings = async (texts: string[], model?: EmbeddingModel): Promise<number[][]> => {
+  const provider = providerFor(model);
+  const embeddings: number[][] = [];
 
-    return embedding;
-  } catch (error: any) {
-    console.error("❌ Hugging Face embedding error:", error.response?.data || error.message);
-    throw new Error("Failed to generate embedding using Hugging Face");
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    embeddings.push(...(await provider.embed(texts.slice(i, i + EMBEDDING_BATCH_SIZE))));
   }
+
+  return embeddings;
 };
 
+// Model id and dimension of the configured provider
+export const getEmbeddingModel = (): EmbeddingModel => {
+  const { modelId, dimension } = getEmbeddingProvider();
+  return { modelId, dimension };
+};
 
 export const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
   const dot = vecA.reduce((sum, a, i) => sum + a * vecB[i], 0);
@@ -40,3 +51,17 @@ export const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
   const magB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
   return dot / (magA * magB);
 };
+
+// pgvector columns come back from PostgREST as "[0.1,0.2,...]" strings
+export const parseEmbedding = (value: unknown): number[] => {
+  try {
+    const parsed = typeof value === "string" ? JSON.parse(value) : value;
+    if (!Array.isArray(parsed)) {
+      throw new Error("Embedding is not an array");
+    }
+    return parsed as number[];
+  } catch (err) {
+    console.error("❌ Failed to parse embedding:", value);
+    throw new Error("Invalid embedding format in DB");
+  }
+};
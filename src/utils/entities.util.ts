@@ -0,0 +1,49 @@
+// Capitalised words that start sentences or are otherwise not names
+const NON_ENTITY_WORDS = new Set([
+  "a", "an", "the", "and", "but", "or", "if", "then", "when", "while", "after", "before",
+  "he", "she", "it", "they", "we", "you", "i", "his", "her", "its", "their", "our", "your",
+  "this", "that", "these", "those", "there", "here", "what", "who", "why", "how", "where",
+  "in", "on", "at", "of", "for", "with", "from", "by", "to", "as", "so", "no", "not", "yes",
+  "chapter", "mr", "mrs", "ms", "dr", "sir", "lady", "lord", "oh", "well", "now", "just",
+]);
+
+const NAME_PATTERN = /\b[A-Z][a-zA-Z'-]+(?:\s+(?:of\s+|the\s+)?[A-Z][a-zA-Z'-]+)*/g;
+
+// Proper-noun phrases such as "Harry Potter" or "House of Lords", with the
+// number of times each appears. Names that only ever show up at the start
+// of a sentence are ignored, since those are usually ordinary words.
+export const extractEntities = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const midSentence = new Set<string>();
+  let match: RegExpExecArray | null;
+
+  while ((match = NAME_PATTERN.exec(text)) !== null) {
+    const words = match[0].split(/\s+/);
+    let skippedLeadingWord = false;
+    while (words.length > 0 && NON_ENTITY_WORDS.has(words[0].toLowerCase())) {
+      words.shift();
+      skippedLeadingWord = true;
+    }
+    if (words.length === 0) continue;
+
+    const name = words.join(" ");
+    if (name.length < 3) continue;
+
+    counts.set(name, (counts.get(name) || 0) + 1);
+
+    const before = text.slice(Math.max(0, match.index - 3), match.index);
+    if (skippedLeadingWord || (match.index > 0 && !/[.!?"'\n]\s*$/.test(before))) {
+      midSentence.add(name);
+    }
+  }
+
+  return new Map([...counts].filter(([name]) => midSentence.has(name)));
+};
+
+export const normalizeEntity = (name: string): string => name.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Whether text mentions the entity as a whole word or phrase
+export const mentionsEntity = (text: string, name: string): boolean => {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+  return new RegExp(`\\b${escaped}\\b`, "i").test(text);
+};
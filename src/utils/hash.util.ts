@@ -0,0 +1,5 @@
+import { createHash } from "crypto";
+
+// Stable fingerprint of chapter text, used to tell when derived data is stale
+export const contentHash = (content: string): string =>
+  createHash("sha256").update(content).digest("hex");
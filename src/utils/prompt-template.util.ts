@@ -0,0 +1,24 @@
+// Minimal {{variable}} templating for prompts. Unknown or missing variables
+// are errors rather than silently rendering as empty text.
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_][a-z0-9_]*)\s*\}\}/gi;
+
+// Distinct variable names used in a template, in order of first use
+export const templateVariables = (template: string): string[] => {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+};
+
+export const renderTemplate = (
+  template: string,
+  variables: Record<string, string | number>
+): string =>
+  template.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Missing prompt variable: ${name}`);
+    }
+    return String(variables[name]);
+  });
@@ -0,0 +1,138 @@
+import {
+  CircuitOpenError,
+  UpstreamError,
+  getCircuitStates,
+  parseRetryAfter,
+  resilientCall,
+  resilientStream,
+} from "./resilience.util";
+
+// Circuits live for the whole process, so every test calls its own service
+let serviceCount = 0;
+const nextService = () => `service-${++serviceCount}`;
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`status ${status}`), { response: { status, headers, data: {} } });
+
+const circuitOf = (service: string) => getCircuitStates().find((state) => state.service === service);
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete process.env.CIRCUIT_FAILURE_THRESHOLD;
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(2)).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(55000);
+  });
+
+  it("ignores missing and malformed values", () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("resilientCall", () => {
+  it("retries transient failures", async () => {
+    const fn = jest.fn().mockRejectedValueOnce(httpError(503)).mockResolvedValueOnce("ok");
+
+    await expect(resilientCall(nextService(), fn, { baseDelayMs: 1 })).resolves.toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry a rejected request", async () => {
+    const service = nextService();
+    const fn = jest.fn().mockRejectedValue(httpError(400));
+
+    const error = await resilientCall(service, fn, { baseDelayMs: 1 }).catch((err) => err);
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({ status: 400, transient: false });
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(circuitOf(service)?.status).toBe("closed");
+  });
+
+  it("gives up when Retry-After is beyond the longest wait", async () => {
+    const fn = jest.fn().mockRejectedValue(httpError(429, { "retry-after": "120" }));
+
+    const error = await resilientCall(nextService(), fn, { baseDelayMs: 1, maxDelayMs: 1000 }).catch((err) => err);
+    expect(error).toMatchObject({ status: 429, transient: true, retryAfterMs: 120000 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out a slow attempt through its signal", async () => {
+    const fn = (signal: AbortSignal) =>
+      new Promise((_, reject) => signal.addEventListener("abort", () => reject(new Error("aborted"))));
+
+    await expect(resilientCall(nextService(), fn, { timeoutMs: 10, maxAttempts: 1 })).rejects.toThrow(
+      "did not respond in time"
+    );
+  });
+
+  it("opens the circuit after consecutive failures and fails fast", async () => {
+    process.env.CIRCUIT_FAILURE_THRESHOLD = "2";
+    const service = nextService();
+    const fn = jest.fn().mockRejectedValue(httpError(502));
+
+    await expect(resilientCall(service, fn, { baseDelayMs: 1, maxAttempts: 5 })).rejects.toThrow("returned 502");
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(circuitOf(service)).toMatchObject({ status: "open", consecutive_failures: 2 });
+
+    await expect(resilientCall(service, fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("resilientStream", () => {
+  async function* chunks(values: string[], gapMs = 0) {
+    for (const value of values) {
+      await new Promise((resolve) => setTimeout(resolve, gapMs));
+      yield value;
+    }
+  }
+
+  const collect = async (stream: AsyncIterable<string>): Promise<string[]> => {
+    const values: string[] = [];
+    for await (const value of stream) values.push(value);
+    return values;
+  };
+
+  it("passes the chunks through", async () => {
+    const stream = resilientStream(nextService(), async () => chunks(["a", "b", "c"]));
+
+    await expect(collect(stream)).resolves.toEqual(["a", "b", "c"]);
+  });
+
+  it("aborts a stream that goes quiet and counts it against the circuit", async () => {
+    const service = nextService();
+    let signal: AbortSignal | undefined;
+    const stream = resilientStream(
+      service,
+      async (attemptSignal) => {
+        signal = attemptSignal;
+        return chunks(["a", "b"], 50);
+      },
+      { idleTimeoutMs: 10 }
+    );
+
+    await expect(collect(stream)).rejects.toThrow("sent nothing for 10ms");
+    expect(signal?.aborted).toBe(true);
+    expect(circuitOf(service)?.consecutive_failures).toBe(1);
+  });
+
+  it("classifies errors raised mid-stream", async () => {
+    async function* failing() {
+      yield "a";
+      throw httpError(500);
+    }
+
+    const error = await collect(resilientStream(nextService(), async () => failing())).catch((err) => err);
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({ status: 500, transient: true });
+  });
+});
@@ -0,0 +1,294 @@
+// Timeouts, retries and circuit breaking for outbound calls to AI services.
+// Each upstream (huggingface, groq, ...) gets its own circuit: after enough
+// consecutive transient failures it opens and calls fail fast until a
+// cooldown has passed, when a single trial call decides whether it closes.
+
+export interface ResilientCallOptions {
+  timeoutMs?: number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  // Longest wait between attempts; a Retry-After beyond it ends the call
+  // so the caller (e.g. the job queue) can come back later instead
+  maxDelayMs?: number;
+}
+
+export interface ResilientStreamOptions extends ResilientCallOptions {
+  // Longest gap allowed between two chunks once the stream is open
+  idleTimeoutMs?: number;
+}
+
+export type CircuitStatus = "closed" | "open" | "half_open";
+
+export interface CircuitState {
+  service: string;
+  status: CircuitStatus;
+  consecutive_failures: number;
+  opened_at: string | null;
+  last_error: string | null;
+}
+
+// A call to an upstream service that failed. Transient failures (timeouts,
+// network errors, 429 and 5xx) mean the service is struggling; anything
+// else means the request itself was rejected.
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly service: string,
+    readonly status: number | null,
+    readonly transient: boolean,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+// Thrown without calling the service while its circuit is open
+export class CircuitOpenError extends UpstreamError {
+  constructor(service: string, retryAfterMs: number) {
+    super(
+      `${service} is temporarily unavailable; retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+      service,
+      null,
+      true,
+      retryAfterMs
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+// Whether an error means the upstream service is down or overloaded, as
+// opposed to a problem with the question or the request
+export const isUpstreamOutage = (error: unknown): error is UpstreamError =>
+  error instanceof UpstreamError && error.transient;
+
+const envInt = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback));
+
+const defaults = (): Required<ResilientCallOptions> => ({
+  timeoutMs: envInt("AI_CALL_TIMEOUT_MS", 30000),
+  maxAttempts: envInt("AI_CALL_MAX_ATTEMPTS", 3),
+  baseDelayMs: envInt("AI_CALL_BASE_DELAY_MS", 500),
+  maxDelayMs: envInt("AI_CALL_MAX_DELAY_MS", 10000),
+});
+
+const failureThreshold = () => envInt("CIRCUIT_FAILURE_THRESHOLD", 5);
+const cooldownMs = () => envInt("CIRCUIT_COOLDOWN_MS", 30000);
+
+interface Circuit {
+  status: CircuitStatus;
+  failures: number;
+  openedAt: number | null;
+  lastError: string | null;
+  trialInFlight: boolean;
+}
+
+const circuits = new Map<string, Circuit>();
+
+const circuitFor = (service: string): Circuit => {
+  let circuit = circuits.get(service);
+  if (!circuit) {
+    circuit = { status: "closed", failures: 0, openedAt: null, lastError: null, trialInFlight: false };
+    circuits.set(service, circuit);
+  }
+  return circuit;
+};
+
+// Throws CircuitOpenError if the call may not go ahead
+const admit = (service: string, circuit: Circuit) => {
+  if (circuit.status === "closed") return;
+
+  const remaining = (circuit.openedAt || 0) + cooldownMs() - Date.now();
+  if (circuit.status === "open" && remaining <= 0) {
+    circuit.status = "half_open";
+  }
+  if (circuit.status === "half_open" && !circuit.trialInFlight) {
+    circuit.trialInFlight = true;
+    return;
+  }
+  throw new CircuitOpenError(service, Math.max(remaining, 1000));
+};
+
+const recordSuccess = (circuit: Circuit) => {
+  circuit.status = "closed";
+  circuit.failures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+};
+
+const recordFailure = (service: string, circuit: Circuit, error: UpstreamError) => {
+  circuit.failures += 1;
+  circuit.lastError = error.message;
+  if (circuit.status === "half_open" || circuit.failures >= failureThreshold()) {
+    if (circuit.status !== "open") {
+      console.warn(`⚡ Circuit for ${service} opened after ${circuit.failures} consecutive failures`);
+    }
+    circuit.status = "open";
+    circuit.openedAt = Date.now();
+  }
+  circuit.trialInFlight = false;
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const headerValue = (headers: any, name: string): unknown => {
+  if (!headers) return undefined;
+  return typeof headers.get === "function" ? headers.get(name) : headers[name];
+};
+
+const TRANSIENT_STATUSES = new Set([408, 425, 429]);
+
+// Map axios and OpenAI SDK errors onto UpstreamError
+const classify = (service: string, error: any, timedOut: boolean): UpstreamError => {
+  if (error instanceof UpstreamError) return error;
+
+  const status: number | null = error?.response?.status ?? (typeof error?.status === "number" ? error.status : null);
+  const retryAfterMs = parseRetryAfter(
+    headerValue(error?.response?.headers, "retry-after") ?? headerValue(error?.headers, "retry-after")
+  );
+  const detail = error?.response?.data?.error || error?.message || String(error);
+
+  if (timedOut) {
+    return new UpstreamError(`${service} did not respond in time`, service, null, true);
+  }
+  if (status === null) {
+    // No response at all: connection refused, reset, DNS failure, ...
+    return new UpstreamError(`${service} request failed: ${detail}`, service, null, true);
+  }
+  return new UpstreamError(
+    `${service} returned ${status}: ${typeof detail === "string" ? detail : JSON.stringify(detail)}`,
+    service,
+    status,
+    TRANSIENT_STATUSES.has(status) || status >= 500,
+    retryAfterMs
+  );
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Call an upstream service with a per-attempt timeout, retrying transient
+// failures with full-jitter exponential backoff (or the server's
+// Retry-After, when longer). fn receives an AbortSignal that fires on
+// timeout; it should pass it to the HTTP client.
+export const resilientCall = async <T>(
+  service: string,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: ResilientCallOptions = {}
+): Promise<T> => {
+  const { timeoutMs, maxAttempts, baseDelayMs, maxDelayMs } = { ...defaults(), ...options };
+  const circuit = circuitFor(service);
+
+  for (let attempt = 1; ; attempt++) {
+    admit(service, circuit);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      const result = await fn(controller.signal);
+      recordSuccess(circuit);
+      return result;
+    } catch (err) {
+      const error = classify(service, err, timedOut);
+      if (!error.transient) {
+        // The service answered, so it is up; the request was the problem
+        recordSuccess(circuit);
+        throw error;
+      }
+
+      recordFailure(service, circuit, error);
+      const backoff = Math.round(Math.random() * baseDelayMs * 2 ** (attempt - 1));
+      const delay = Math.max(backoff, error.retryAfterMs || 0);
+      if (attempt >= maxAttempts || circuit.status === "open" || delay > maxDelayMs) {
+        throw error;
+      }
+
+      console.warn(`🔁 ${error.message}; retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`);
+      await sleep(delay);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+};
+
+// Open a streaming response with resilientCall's timeout and retries, then
+// watch it while it is read: a gap of more than idleTimeoutMs between chunks
+// aborts it, and errors raised mid-stream are classified and count against
+// the circuit like any other failure. Nothing is retried once chunks have
+// been handed out.
+export async function* resilientStream<T>(
+  service: string,
+  open: (signal: AbortSignal) => Promise<AsyncIterable<T>>,
+  options: ResilientStreamOptions = {}
+): AsyncGenerator<T> {
+  const idleTimeoutMs = options.idleTimeoutMs ?? envInt("AI_STREAM_IDLE_TIMEOUT_MS", 30000);
+  const circuit = circuitFor(service);
+
+  // resilientCall's signal stops firing once the stream is open, so each
+  // attempt gets a controller of its own that outlives it
+  let controller = new AbortController();
+  const stream = await resilientCall(
+    service,
+    (signal) => {
+      const attempt = new AbortController();
+      signal.addEventListener("abort", () => attempt.abort());
+      controller = attempt;
+      return open(attempt.signal);
+    },
+    options
+  );
+
+  const iterator = stream[Symbol.asyncIterator]();
+  try {
+    for (;;) {
+      let timedOut = false;
+      let timer: NodeJS.Timeout | undefined;
+      const idle = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          timedOut = true;
+          reject(new UpstreamError(`${service} sent nothing for ${idleTimeoutMs}ms`, service, null, true));
+          controller.abort();
+        }, idleTimeoutMs);
+      });
+
+      let next: IteratorResult<T>;
+      try {
+        next = await Promise.race([iterator.next(), idle]);
+      } catch (err) {
+        const error = classify(service, err, timedOut);
+        if (error.transient) {
+          recordFailure(service, circuit, error);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (next.done) return;
+      yield next.value;
+    }
+  } finally {
+    // Stops the upstream too when the reader gave up early
+    controller.abort();
+  }
+}
+
+// Current circuit of every upstream called so far, for health checks
+export const getCircuitStates = (): CircuitState[] =>
+  [...circuits].map(([service, circuit]) => ({
+    service,
+    status: circuit.status,
+    consecutive_failures: circuit.failures,
+    opened_at: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : null,
+    last_error: circuit.lastError,
+  }));
@@ -0,0 +1,29 @@
+// Approximate token accounting. We don't ship a tokenizer for every model,
+// so counts come from characters-per-token ratios that err on the high side.
+
+const CHARS_PER_TOKEN: Array<[RegExp, number]> = [
+  [/llama|mixtral|mistral/i, 3.5],
+  [/gpt|o\d/i, 4],
+];
+
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/llama-4|llama-3\.[1-3]|llama3\.[1-3]/i, 131072],
+  [/gpt-4o|gpt-4\.1/i, 128000],
+  [/mixtral/i, 32768],
+];
+
+const DEFAULT_CHARS_PER_TOKEN = 3.5;
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+const lookup = (table: Array<[RegExp, number]>, model: string, fallback: number) =>
+  table.find(([pattern]) => pattern.test(model))?.[1] ?? fallback;
+
+export const charsPerToken = (model: string): number =>
+  lookup(CHARS_PER_TOKEN, model, DEFAULT_CHARS_PER_TOKEN);
+
+export const countTokens = (text: string, model: string): number =>
+  Math.ceil(text.length / charsPerToken(model));
+
+// Total tokens (prompt + completion) the model accepts
+export const contextWindow = (model: string): number =>
+  lookup(CONTEXT_WINDOWS, model, DEFAULT_CONTEXT_WINDOW);
@@ -0,0 +1,19 @@
+-- Paragraph-level passages with their own embeddings.
+-- Each chapter is split into overlapping chunks; retrieval scores chunks
+-- instead of whole chapters.
+create extension if not exists vector;
+
+create table if not exists public.chapter_chunks (
+  id uuid primary key default gen_random_uuid(),
+  chapter_id uuid not null references public.chapters(id) on delete cascade,
+  chunk_index integer not null,
+  content text not null,
+  start_offset integer not null,
+  end_offset integer not null,
+  embedding vector not null,
+  created_at timestamptz not null default now(),
+  unique (chapter_id, chunk_index)
+);
+
+create index if not exists chapter_chunks_chapter_id_idx
+  on public.chapter_chunks (chapter_id);
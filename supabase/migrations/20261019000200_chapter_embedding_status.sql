@@ -0,0 +1,6 @@
+-- Track where each chapter is in the embedding pipeline.
+alter table public.chapters
+  add column if not exists embedding_status text not null default 'pending'
+    check (embedding_status in ('pending', 'processing', 'ready', 'failed')),
+  add column if not exists embedding_error text,
+  add column if not exists embedded_at timestamptz;
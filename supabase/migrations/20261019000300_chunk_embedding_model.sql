@@ -0,0 +1,8 @@
+-- Record which embedding provider produced each stored vector.
+alter table public.chapter_chunks
+  add column if not exists embedding_model text not null default 'huggingface/BAAI/bge-large-en-v1.5',
+  add column if not exists embedding_dimension integer not null default 1024;
+
+alter table public.chapter_chunks
+  alter column embedding_model drop default,
+  alter column embedding_dimension drop default;
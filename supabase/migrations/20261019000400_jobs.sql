@@ -0,0 +1,56 @@
+-- Durable job queue for background work such as answer generation.
+create table if not exists public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  type text not null,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'queued'
+    check (status in ('queued', 'processing', 'completed', 'dead')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  last_error text,
+  run_at timestamptz not null default now(),
+  locked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists jobs_claim_idx on public.jobs (type, status, run_at);
+
+-- Atomically lease the next due job. Jobs stuck in processing longer than
+-- the lock timeout (e.g. after a crash) are handed out again.
+create or replace function public.claim_next_job(
+  job_types text[],
+  lock_timeout_seconds integer default 600
+)
+returns setof public.jobs
+language plpgsql
+as $$
+begin
+  return query
+  update public.jobs j
+  set status = 'processing',
+      attempts = j.attempts + 1,
+      locked_at = now(),
+      updated_at = now()
+  where j.id = (
+    select candidate.id
+    from public.jobs candidate
+    where candidate.type = any(job_types)
+      and (
+        (candidate.status = 'queued' and candidate.run_at <= now())
+        or (candidate.status = 'processing'
+            and candidate.locked_at < now() - make_interval(secs => lock_timeout_seconds))
+      )
+    order by candidate.run_at
+    for update skip locked
+    limit 1
+  )
+  returning j.*;
+end;
+$$;
+
+-- Questions gain queue-related statuses.
+alter table public.questions drop constraint if exists questions_status_check;
+alter table public.questions
+  add constraint questions_status_check
+  check (status in ('pending', 'queued', 'processing', 'answered', 'failed'));
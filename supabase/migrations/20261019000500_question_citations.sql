@@ -0,0 +1,3 @@
+-- Structured citations linking an answer to the passages it used.
+alter table public.questions
+  add column if not exists citations jsonb;
@@ -0,0 +1,19 @@
+-- Audit trail of post-generation spoiler checks that found a leak.
+create table if not exists public.spoiler_checks (
+  id uuid primary key default gen_random_uuid(),
+  question_id uuid not null references public.questions(id) on delete cascade,
+  chapter_limit integer,
+  leaked boolean not null,
+  action text not null check (action in ('none', 'redacted', 'regenerated', 'blocked')),
+  entities jsonb not null default '[]'::jsonb,
+  phrases jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists spoiler_checks_question_id_idx
+  on public.spoiler_checks (question_id);
+
+alter table public.questions drop constraint if exists questions_status_check;
+alter table public.questions
+  add constraint questions_status_check
+  check (status in ('pending', 'queued', 'processing', 'answered', 'failed', 'blocked_spoiler'));
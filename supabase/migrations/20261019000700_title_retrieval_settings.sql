@@ -0,0 +1,3 @@
+-- Per-title tuning for hybrid (lexical + vector) retrieval.
+alter table public.titles
+  add column if not exists retrieval_settings jsonb not null default '{}'::jsonb;
@@ -0,0 +1,88 @@
+-- Server-side passage search. Both functions apply the chapter limit in
+-- the query and return only the top matches.
+
+alter table public.chapter_chunks
+  add column if not exists content_tsv tsvector
+    generated always as (to_tsvector('english', content)) stored;
+
+create index if not exists chapter_chunks_content_tsv_idx
+  on public.chapter_chunks using gin (content_tsv);
+
+-- Cosine similarity via the pgvector <=> operator. Rows whose dimension
+-- differs from the query vector (another embedding model) are skipped.
+create or replace function public.match_chapter_chunks(
+  p_title_id uuid,
+  query_embedding vector,
+  chapter_limit integer default null,
+  match_count integer default 12
+)
+returns table (
+  chunk_id uuid,
+  chapter_id uuid,
+  chapter_name text,
+  chapter_order integer,
+  chunk_index integer,
+  content text,
+  score double precision
+)
+language sql stable
+as $$
+  select
+    cc.id,
+    c.id,
+    c.name,
+    c."order",
+    cc.chunk_index,
+    cc.content,
+    1 - (cc.embedding <=> query_embedding)
+  from public.chapter_chunks cc
+  join public.chapters c on c.id = cc.chapter_id
+  where c.title_id = p_title_id
+    and (chapter_limit is null or c."order" <= chapter_limit)
+    and vector_dims(cc.embedding) = vector_dims(query_embedding)
+  order by cc.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+-- Full-text rank where any query term may match, so natural-language
+-- questions are not required to contain every word of a passage.
+create or replace function public.search_chapter_chunks(
+  p_title_id uuid,
+  query_text text,
+  chapter_limit integer default null,
+  match_count integer default 12
+)
+returns table (
+  chunk_id uuid,
+  chapter_id uuid,
+  chapter_name text,
+  chapter_order integer,
+  chunk_index integer,
+  content text,
+  score double precision
+)
+language sql stable
+as $$
+  with q as (
+    select to_tsquery(
+      'english',
+      array_to_string(tsvector_to_array(to_tsvector('english', query_text)), ' | ')
+    ) as query
+  )
+  select
+    cc.id,
+    c.id,
+    c.name,
+    c."order",
+    cc.chunk_index,
+    cc.content,
+    ts_rank_cd(cc.content_tsv, q.query)::double precision
+  from public.chapter_chunks cc
+  join public.chapters c on c.id = cc.chapter_id
+  cross join q
+  where c.title_id = p_title_id
+    and (chapter_limit is null or c."order" <= chapter_limit)
+    and cc.content_tsv @@ q.query
+  order by 7 desc
+  limit match_count;
+$$;
@@ -0,0 +1,19 @@
+-- Conversation threads: follow-up questions share a thread and a chapter
+-- limit, and are answered with the earlier turns as history.
+create table if not exists public.question_threads (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  title_id uuid not null references public.titles(id) on delete cascade,
+  chapter_limit integer not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists question_threads_user_title_idx
+  on public.question_threads (user_id, title_id);
+
+alter table public.questions
+  add column if not exists thread_id uuid references public.question_threads(id) on delete cascade,
+  add column if not exists parent_question_id uuid references public.questions(id) on delete set null;
+
+create index if not exists questions_thread_id_idx on public.questions (thread_id);
@@ -0,0 +1,69 @@
+-- Semantic answer cache: answers keyed on title, chapter limit and the
+-- question's embedding, reused for near-duplicate questions.
+create table if not exists public.answer_cache (
+  id uuid primary key default gen_random_uuid(),
+  title_id uuid not null references public.titles(id) on delete cascade,
+  chapter_limit integer not null,
+  question_text text not null,
+  question_embedding vector not null,
+  embedding_model text not null,
+  answer_text text not null,
+  citations jsonb,
+  source_question_id uuid references public.questions(id) on delete set null,
+  hit_count integer not null default 0,
+  last_hit_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists answer_cache_title_limit_idx
+  on public.answer_cache (title_id, chapter_limit);
+
+alter table public.questions
+  add column if not exists answer_reused boolean not null default false,
+  add column if not exists reused_from_question_id uuid references public.questions(id) on delete set null;
+
+-- Best cached answer for the exact title and chapter limit, if any entry
+-- from the same embedding model is at least min_similarity close.
+create or replace function public.match_answer_cache(
+  p_title_id uuid,
+  p_chapter_limit integer,
+  p_embedding_model text,
+  query_embedding vector,
+  min_similarity double precision default 0.95
+)
+returns table (
+  id uuid,
+  question_text text,
+  answer_text text,
+  citations jsonb,
+  source_question_id uuid,
+  similarity double precision
+)
+language sql stable
+as $$
+  select
+    ac.id,
+    ac.question_text,
+    ac.answer_text,
+    ac.citations,
+    ac.source_question_id,
+    1 - (ac.question_embedding <=> query_embedding)
+  from public.answer_cache ac
+  where ac.title_id = p_title_id
+    and ac.chapter_limit = p_chapter_limit
+    and ac.embedding_model = p_embedding_model
+    and vector_dims(ac.question_embedding) = vector_dims(query_embedding)
+    and 1 - (ac.question_embedding <=> query_embedding) >= min_similarity
+  order by ac.question_embedding <=> query_embedding
+  limit 1;
+$$;
+
+create or replace function public.record_answer_cache_hit(p_id uuid)
+returns void
+language sql
+as $$
+  update public.answer_cache
+  set hit_count = hit_count + 1,
+      last_hit_at = now()
+  where id = p_id;
+$$;
@@ -0,0 +1,66 @@
+-- Versioned prompt templates. Versions are immutable; one version per name
+-- is active and used for new answers.
+create table if not exists public.prompt_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  version integer not null,
+  template text not null,
+  description text,
+  is_active boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (name, version)
+);
+
+create unique index if not exists prompt_templates_active_idx
+  on public.prompt_templates (name) where is_active;
+
+alter table public.questions
+  add column if not exists prompt_template text,
+  add column if not exists prompt_template_version integer;
+
+-- Switch the active version of a template in a single transaction
+create or replace function public.activate_prompt_template(p_name text, p_version integer)
+returns setof public.prompt_templates
+language plpgsql
+as $$
+begin
+  if not exists (
+    select 1 from public.prompt_templates where name = p_name and version = p_version
+  ) then
+    return;
+  end if;
+
+  update public.prompt_templates
+  set is_active = false
+  where name = p_name and is_active and version <> p_version;
+
+  return query
+    update public.prompt_templates
+    set is_active = true
+    where name = p_name and version = p_version
+    returning *;
+end;
+$$;
+
+-- The prompts previously hard-coded in the answer service
+insert into public.prompt_templates (name, version, template, description, is_active)
+values
+  ('answer', 1, $tpl$
+You are a helpful assistant. Use ONLY the information provided in the passages below to answer the question. DO NOT use prior knowledge or guess. If the answer isn't found in the content, reply: "I could not find the answer in the provided chapters."
+
+### Relevant Passages (selected based on relevance):
+{{context}}
+
+### Question:
+{{question}}
+
+### Notes:
+- Avoid spoilers from content beyond Chapter {{chapter_limit}}
+- Stay factual and concise.
+- Cite the passages you used by their numbers in square brackets, e.g. [2].
+- Do NOT fabricate or assume details not present in the text.
+$tpl$, 'Original answer prompt', true),
+  ('spoiler_retry', 1, $tpl$
+### Important:
+Your previous answer revealed events from after Chapter {{chapter_limit}}. Answer again using only the passages above{{avoid}}.$tpl$, 'Appended to the answer prompt when regenerating a leaking answer', true)
+on conflict (name, version) do nothing;
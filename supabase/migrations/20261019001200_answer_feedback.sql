@@ -0,0 +1,41 @@
+-- Reader feedback on answers and the history of regenerated answers.
+alter table public.questions
+  add column if not exists answer_version integer not null default 1;
+
+-- Earlier answers to a question, archived when it is regenerated
+create table if not exists public.answer_history (
+  id uuid primary key default gen_random_uuid(),
+  question_id uuid not null references public.questions(id) on delete cascade,
+  answer_version integer not null,
+  answer_text text,
+  citations jsonb,
+  status text,
+  prompt_template text,
+  prompt_template_version integer,
+  answer_reused boolean not null default false,
+  answered_at timestamptz,
+  archived_at timestamptz not null default now(),
+  unique (question_id, answer_version)
+);
+
+-- One entry per reader per answer version. The prompt template is copied
+-- in so feedback can be grouped by template version after later changes.
+create table if not exists public.answer_feedback (
+  id uuid primary key default gen_random_uuid(),
+  question_id uuid not null references public.questions(id) on delete cascade,
+  user_id uuid not null,
+  answer_version integer not null,
+  rating smallint check (rating in (-1, 1)),
+  spoiled boolean not null default false,
+  wrong_answer boolean not null default false,
+  comment text,
+  prompt_template text,
+  prompt_template_version integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (question_id, user_id, answer_version)
+);
+
+create index if not exists answer_feedback_flags_idx
+  on public.answer_feedback (created_at desc)
+  where spoiled or wrong_answer or rating = -1;
@@ -0,0 +1,34 @@
+-- Cached per-chapter summaries for "story so far" recaps. A summary is
+-- reused only while the chapter content hashes the same.
+create table if not exists public.chapter_summaries (
+  id uuid primary key default gen_random_uuid(),
+  chapter_id uuid not null unique references public.chapters(id) on delete cascade,
+  content_hash text not null,
+  summary text not null,
+  model text not null,
+  prompt_template_version integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Where the reader's current reading session started, so a recap can cover
+-- only what was read in it
+alter table public.user_progress
+  add column if not exists session_start_chapter integer,
+  add column if not exists session_started_at timestamptz;
+
+insert into public.prompt_templates (name, version, template, description, is_active)
+values
+  ('chapter_summary', 1, $tpl$
+Summarize the chapter below for a reader who has just finished it. Cover the main events, the characters involved and anything left unresolved, in at most {{max_words}} words. Use ONLY the chapter text; do not mention anything that happens later in the book, even if you know the story.
+
+### Chapter {{chapter_order}}: {{chapter_name}}
+{{content}}
+$tpl$, 'Per-chapter summary cached for recaps', true),
+  ('recap', 1, $tpl$
+Write a "story so far" recap for a reader returning to the book, based ONLY on the chapter summaries below. Keep it to a few short paragraphs, in order of events. The reader has read up to Chapter {{chapter_limit}}; do not hint at or predict anything beyond it.
+
+### Chapter summaries ({{scope}}):
+{{summaries}}
+$tpl$, 'Combines chapter summaries into a recap', true)
+on conflict (name, version) do nothing;
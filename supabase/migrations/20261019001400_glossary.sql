@@ -0,0 +1,31 @@
+-- Characters, places and factions extracted from each chapter. The title
+-- glossary is assembled from these in chapter order, so a reader at
+-- chapter N only sees entries and descriptions from chapters 1..N.
+create table if not exists public.chapter_glossary (
+  id uuid primary key default gen_random_uuid(),
+  chapter_id uuid not null unique references public.chapters(id) on delete cascade,
+  title_id uuid not null references public.titles(id) on delete cascade,
+  content_hash text not null,
+  entities jsonb not null default '[]'::jsonb,
+  model text not null,
+  prompt_template_version integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chapter_glossary_title_id_idx
+  on public.chapter_glossary (title_id);
+
+insert into public.prompt_templates (name, version, template, description, is_active)
+values
+  ('glossary', 1, $tpl$
+List the characters, places and factions that appear in the chapter below. For each, describe in one or two sentences who or what they are and what they do IN THIS CHAPTER ONLY. Do not use anything you may know about later parts of the book.
+
+Names that look important: {{candidates}}
+
+Reply with only a JSON array of objects with the keys "name", "type" ("character", "place", "faction" or "other") and "description".
+
+### Chapter {{chapter_order}}: {{chapter_name}}
+{{content}}
+$tpl$, 'Per-chapter glossary extraction', true)
+on conflict (name, version) do nothing;
@@ -0,0 +1,65 @@
+-- Comprehension quizzes generated from the chapters a reader has finished.
+-- Items keep their answer key; it is only returned with a graded attempt.
+create table if not exists public.quizzes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  title_id uuid not null references public.titles(id) on delete cascade,
+  from_chapter integer not null,
+  chapter_limit integer not null,
+  items jsonb not null default '[]'::jsonb,
+  model text not null,
+  prompt_template_version integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quizzes_user_title_idx
+  on public.quizzes (user_id, title_id, created_at desc);
+
+create table if not exists public.quiz_attempts (
+  id uuid primary key default gen_random_uuid(),
+  quiz_id uuid not null references public.quizzes(id) on delete cascade,
+  user_id uuid not null,
+  results jsonb not null default '[]'::jsonb,
+  score integer not null,
+  max_score integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quiz_attempts_quiz_id_idx
+  on public.quiz_attempts (quiz_id, created_at);
+
+-- Quiz scores per title, kept alongside reading progress
+alter table public.user_progress
+  add column if not exists quizzes_taken integer not null default 0,
+  add column if not exists last_quiz_score integer,
+  add column if not exists best_quiz_score integer,
+  add column if not exists last_quiz_at timestamptz;
+
+create or replace function public.record_quiz_score(p_user_id uuid, p_title_id uuid, p_percentage integer)
+returns void
+language sql
+as $$
+  update public.user_progress
+  set quizzes_taken = quizzes_taken + 1,
+      last_quiz_score = p_percentage,
+      best_quiz_score = greatest(coalesce(best_quiz_score, 0), p_percentage),
+      last_quiz_at = now()
+  where user_id = p_user_id
+    and title_id = p_title_id;
+$$;
+
+insert into public.prompt_templates (name, version, template, description, is_active)
+values
+  ('quiz', 1, $tpl$
+Write {{question_count}} comprehension questions about the chapters below for a reader who has read up to Chapter {{chapter_limit}}. Use question types: {{question_types}}. Every question and answer must come from the chapter text below; do not use anything you may know about later parts of the book.
+
+Reply with only a JSON array of objects with the keys:
+- "type": "multiple_choice" or "short_answer"
+- "question": the question
+- "options": for multiple_choice, an array of 4 answer options; omit for short_answer
+- "answer": the correct option, copied exactly, or a short answer of a few words
+- "chapter": the number of the chapter the answer comes from
+
+{{chapters}}
+$tpl$, 'Comprehension quiz generation', true)
+on conflict (name, version) do nothing;
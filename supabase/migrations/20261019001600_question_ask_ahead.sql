@@ -0,0 +1,5 @@
+-- Questions whose reader explicitly asked beyond their saved reading
+-- progress. Chapter limits now default to that progress, and readers in
+-- strict mode have higher limits rejected or clamped unless they ask ahead.
+alter table public.questions
+  add column if not exists asked_ahead boolean not null default false;
@@ -0,0 +1,6 @@
+-- Why answering a question last failed, so readers and clients can tell an
+-- AI service outage ("upstream_unavailable", worth retrying later) from a
+-- problem with the question itself ("error"). Cleared once it is answered.
+alter table public.questions
+  add column if not exists failure_reason text
+    check (failure_reason in ('upstream_unavailable', 'error'));
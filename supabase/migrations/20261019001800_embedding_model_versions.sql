@@ -0,0 +1,180 @@
+-- Embedding model versions. Each title records the model its passages are
+-- searched with: questions are embedded with that model and only chunks it
+-- produced are matched. Re-embedding into a new model writes a second set
+-- of chunks next to the live one and switches the title over in a single
+-- transaction once every chapter is done.
+
+alter table public.titles
+  add column if not exists embedding_model text,
+  add column if not exists embedding_dimension integer;
+
+-- Titles indexed so far keep the model most of their chunks came from
+update public.titles t
+set embedding_model = m.embedding_model,
+    embedding_dimension = m.embedding_dimension
+from (
+  select distinct on (c.title_id) c.title_id, cc.embedding_model, cc.embedding_dimension
+  from public.chapter_chunks cc
+  join public.chapters c on c.id = cc.chapter_id
+  group by c.title_id, cc.embedding_model, cc.embedding_dimension
+  order by c.title_id, count(*) desc
+) m
+where t.id = m.title_id
+  and t.embedding_model is null;
+
+-- A chapter holds one set of chunks per model while a title is migrating
+alter table public.chapter_chunks
+  drop constraint if exists chapter_chunks_chapter_id_chunk_index_key;
+alter table public.chapter_chunks
+  add constraint chapter_chunks_chapter_id_embedding_model_chunk_index_key
+  unique (chapter_id, embedding_model, chunk_index);
+
+create table if not exists public.embedding_migrations (
+  id uuid primary key default gen_random_uuid(),
+  title_id uuid not null references public.titles(id) on delete cascade,
+  from_model text,
+  to_model text not null,
+  to_dimension integer not null,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'completed', 'failed')),
+  chapters_total integer not null default 0,
+  chapters_done integer not null default 0,
+  error text,
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- At most one unfinished migration per title
+create unique index if not exists embedding_migrations_unfinished_idx
+  on public.embedding_migrations (title_id)
+  where status in ('queued', 'running');
+
+-- Point the title at the migration's model, drop every other model's
+-- chunks and cached answers, and mark the migration completed, all in one
+-- transaction. Returns false if the migration is not running.
+create or replace function public.cutover_embedding_model(p_migration_id uuid)
+returns boolean
+language plpgsql
+as $$
+declare
+  migration public.embedding_migrations;
+begin
+  select * into migration
+  from public.embedding_migrations
+  where id = p_migration_id
+    and status = 'running'
+  for update;
+
+  if not found then
+    return false;
+  end if;
+
+  update public.titles
+  set embedding_model = migration.to_model,
+      embedding_dimension = migration.to_dimension
+  where id = migration.title_id;
+
+  delete from public.chapter_chunks cc
+  using public.chapters c
+  where c.id = cc.chapter_id
+    and c.title_id = migration.title_id
+    and cc.embedding_model <> migration.to_model;
+
+  delete from public.answer_cache
+  where title_id = migration.title_id
+    and embedding_model <> migration.to_model;
+
+  update public.embedding_migrations
+  set status = 'completed',
+      completed_at = now(),
+      updated_at = now()
+  where id = p_migration_id;
+
+  return true;
+end;
+$$;
+
+-- Searches match only the chunks of the title's active model, so a title
+-- being migrated never returns a passage twice
+drop function if exists public.match_chapter_chunks(uuid, vector, integer, integer);
+drop function if exists public.search_chapter_chunks(uuid, text, integer, integer);
+
+create or replace function public.match_chapter_chunks(
+  p_title_id uuid,
+  p_embedding_model text,
+  query_embedding vector,
+  chapter_limit integer default null,
+  match_count integer default 12
+)
+returns table (
+  chunk_id uuid,
+  chapter_id uuid,
+  chapter_name text,
+  chapter_order integer,
+  chunk_index integer,
+  content text,
+  score double precision
+)
+language sql stable
+as $$
+  select
+    cc.id,
+    c.id,
+    c.name,
+    c."order",
+    cc.chunk_index,
+    cc.content,
+    1 - (cc.embedding <=> query_embedding)
+  from public.chapter_chunks cc
+  join public.chapters c on c.id = cc.chapter_id
+  where c.title_id = p_title_id
+    and cc.embedding_model = p_embedding_model
+    and (chapter_limit is null or c."order" <= chapter_limit)
+  order by cc.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+create or replace function public.search_chapter_chunks(
+  p_title_id uuid,
+  p_embedding_model text,
+  query_text text,
+  chapter_limit integer default null,
+  match_count integer default 12
+)
+returns table (
+  chunk_id uuid,
+  chapter_id uuid,
+  chapter_name text,
+  chapter_order integer,
+  chunk_index integer,
+  content text,
+  score double precision
+)
+language sql stable
+as $$
+  with q as (
+    select to_tsquery(
+      'english',
+      array_to_string(tsvector_to_array(to_tsvector('english', query_text)), ' | ')
+    ) as query
+  )
+  select
+    cc.id,
+    c.id,
+    c.name,
+    c."order",
+    cc.chunk_index,
+    cc.content,
+    ts_rank_cd(cc.content_tsv, q.query)::double precision
+  from public.chapter_chunks cc
+  join public.chapters c on c.id = cc.chapter_id
+  cross join q
+  where c.title_id = p_title_id
+    and cc.embedding_model = p_embedding_model
+    and (chapter_limit is null or c."order" <= chapter_limit)
+    and cc.content_tsv @@ q.query
+  order by 7 desc
+  limit match_count;
+$$;
@@ -0,0 +1,47 @@
+-- Ledger of AI usage per user: one row per action that called the model
+-- (answering a question, generating a quiz or a recap) with the token
+-- counts the provider reported. Daily and monthly quotas are checked
+-- against it.
+create table if not exists public.usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  kind text not null check (kind in ('answer', 'quiz', 'recap')),
+  question_id uuid references public.questions(id) on delete set null,
+  title_id uuid references public.titles(id) on delete set null,
+  provider text not null,
+  model text not null,
+  completions integer not null default 1,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  -- Counted locally because the provider reported no usage
+  estimated boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_events_user_created_idx
+  on public.usage_events (user_id, created_at);
+
+-- Requests and tokens since the start of the current day and month
+create or replace function public.usage_totals(
+  p_user_id uuid,
+  p_day_start timestamptz,
+  p_month_start timestamptz
+)
+returns table (
+  day_requests bigint,
+  day_tokens bigint,
+  month_requests bigint,
+  month_tokens bigint
+)
+language sql stable
+as $$
+  select
+    count(*) filter (where created_at >= p_day_start),
+    coalesce(sum(total_tokens) filter (where created_at >= p_day_start), 0),
+    count(*),
+    coalesce(sum(total_tokens), 0)
+  from public.usage_events
+  where user_id = p_user_id
+    and created_at >= p_month_start;
+$$;
@@ -0,0 +1,13 @@
+-- Questions refused by the screening stage before answering: too long,
+-- trying to override the assistant's instructions, or flagged by the
+-- content-safety classifier. They are kept with the reason so admins can
+-- review them, but never reach the answering model.
+alter table public.questions
+  add column if not exists refusal_reason text
+    check (refusal_reason in ('too_long', 'prompt_injection', 'unsafe_content')),
+  add column if not exists refusal_detail text;
+
+alter table public.questions drop constraint if exists questions_status_check;
+alter table public.questions
+  add constraint questions_status_check
+  check (status in ('pending', 'queued', 'processing', 'answered', 'failed', 'blocked_spoiler', 'refused'));
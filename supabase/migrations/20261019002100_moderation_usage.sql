@@ -0,0 +1,30 @@
+-- Content-safety classifier calls are metered too. They count towards the
+-- token quotas, but not as requests: screening is part of asking, not an
+-- action of its own.
+alter table public.usage_events drop constraint if exists usage_events_kind_check;
+alter table public.usage_events
+  add constraint usage_events_kind_check
+  check (kind in ('answer', 'quiz', 'recap', 'moderation'));
+
+create or replace function public.usage_totals(
+  p_user_id uuid,
+  p_day_start timestamptz,
+  p_month_start timestamptz
+)
+returns table (
+  day_requests bigint,
+  day_tokens bigint,
+  month_requests bigint,
+  month_tokens bigint
+)
+language sql stable
+as $$
+  select
+    count(*) filter (where created_at >= p_day_start and kind <> 'moderation'),
+    coalesce(sum(total_tokens) filter (where created_at >= p_day_start), 0),
+    count(*) filter (where kind <> 'moderation'),
+    coalesce(sum(total_tokens), 0)
+  from public.usage_events
+  where user_id = p_user_id
+    and created_at >= p_month_start;
+$$;
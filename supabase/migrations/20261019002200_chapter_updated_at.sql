@@ -0,0 +1,5 @@
+-- When a chapter last changed. Together with the chapter count it versions
+-- a title's text, so every worker process can tell its cached spoiler
+-- index is stale after another one edited, added or deleted a chapter.
+alter table public.chapters
+  add column if not exists updated_at timestamptz not null default now();
@@ -0,0 +1,149 @@
+-- Make passage search use indexes. The embedding column holds vectors of
+-- every model, so it has no fixed dimension and cannot be indexed as is.
+-- Instead each model in use gets a partial HNSW index over its chunks,
+-- cast to that model's dimension, and match_chapter_chunks queries
+-- through the same cast so the planner can pick the index.
+
+-- Create the vector index for one model's chunks if it doesn't exist yet.
+-- pgvector indexes at most 2000 dimensions; larger models stay unindexed.
+-- The build blocks chunk writes while it runs, so the app calls this on
+-- its own when a title adopts a model or before a migration cuts over,
+-- never inside another transaction.
+create or replace function public.ensure_chunk_vector_index(p_model text, p_dimension integer)
+returns void
+language plpgsql
+as $$
+begin
+  if p_dimension > 2000 then
+    raise notice 'Embedding model % has % dimensions; its chunks are searched without an index',
+      p_model, p_dimension;
+    return;
+  end if;
+
+  execute format(
+    'create index if not exists %I on public.chapter_chunks
+       using hnsw ((embedding::vector(%s)) vector_cosine_ops)
+       where embedding_model = %L',
+    'chapter_chunks_embedding_' || left(md5(p_model), 12) || '_idx',
+    p_dimension,
+    p_model
+  );
+end;
+$$;
+
+-- Index the models titles already use
+do $$
+declare
+  m record;
+begin
+  for m in
+    select distinct embedding_model, embedding_dimension
+    from public.titles
+    where embedding_model is not null and embedding_dimension is not null
+  loop
+    perform public.ensure_chunk_vector_index(m.embedding_model, m.embedding_dimension);
+  end loop;
+end;
+$$;
+
+-- Same results as before, but ordered by the cast the index is built on.
+-- One index serves every title using the model and the title and chapter
+-- filters apply to what it returns, so a plain scan would stop at
+-- hnsw.ef_search candidates and find few of a title's chunks once many
+-- titles share the model. Iterative scans keep reading the index until
+-- enough rows pass the filters; relaxed order means the rows come back
+-- roughly sorted, so they are sorted again. Needs pgvector 0.8 or later.
+create or replace function public.match_chapter_chunks(
+  p_title_id uuid,
+  p_embedding_model text,
+  query_embedding vector,
+  chapter_limit integer default null,
+  match_count integer default 12
+)
+returns table (
+  chunk_id uuid,
+  chapter_id uuid,
+  chapter_name text,
+  chapter_order integer,
+  chunk_index integer,
+  content text,
+  score double precision
+)
+language plpgsql volatile
+as $$
+begin
+  perform set_config('hnsw.iterative_scan', 'relaxed_order', true);
+  perform set_config('hnsw.ef_search', least(1000, greatest(100, match_count * 4))::text, true);
+
+  return query execute format(
+    $query$
+      with matches as materialized (
+        select
+          cc.id,
+          c.id as chapter_id,
+          c.name,
+          c."order",
+          cc.chunk_index,
+          cc.content,
+          cc.embedding::vector(%1$s) <=> $1::vector(%1$s) as distance
+        from public.chapter_chunks cc
+        join public.chapters c on c.id = cc.chapter_id
+        where c.title_id = $2
+          and cc.embedding_model = $3
+          and ($4::integer is null or c."order" <= $4)
+        order by cc.embedding::vector(%1$s) <=> $1::vector(%1$s)
+        limit $5
+      )
+      select id, chapter_id, name, "order", chunk_index, content, 1 - distance
+      from matches
+      order by distance
+    $query$,
+    vector_dims(query_embedding)
+  )
+  using query_embedding, p_title_id, p_embedding_model, chapter_limit, match_count;
+end;
+$$;
+
+-- Build the any-term query from quoted lexemes. Joining them unquoted
+-- into to_tsquery breaks on lexemes with query syntax in them (e.g. an
+-- apostrophe or a colon) and stems them a second time.
+create or replace function public.search_chapter_chunks(
+  p_title_id uuid,
+  p_embedding_model text,
+  query_text text,
+  chapter_limit integer default null,
+  match_count integer default 12
+)
+returns table (
+  chunk_id uuid,
+  chapter_id uuid,
+  chapter_name text,
+  chapter_order integer,
+  chunk_index integer,
+  content text,
+  score double precision
+)
+language sql stable
+as $$
+  with q as (
+    select coalesce(string_agg(quote_literal(lexeme), ' | '), '')::tsquery as query
+    from unnest(tsvector_to_array(to_tsvector('english', query_text))) as lexeme
+  )
+  select
+    cc.id,
+    c.id,
+    c.name,
+    c."order",
+    cc.chunk_index,
+    cc.content,
+    ts_rank_cd(cc.content_tsv, q.query)::double precision
+  from public.chapter_chunks cc
+  join public.chapters c on c.id = cc.chapter_id
+  cross join q
+  where c.title_id = p_title_id
+    and cc.embedding_model = p_embedding_model
+    and (chapter_limit is null or c."order" <= chapter_limit)
+    and cc.content_tsv @@ q.query
+  order by 7 desc
+  limit match_count;
+$$;
@@ -0,0 +1,6 @@
+-- A queued question whose asker used up their quota before the worker got
+-- to it fails with "quota_exceeded"; asking again after the reset works.
+alter table public.questions drop constraint if exists questions_failure_reason_check;
+alter table public.questions
+  add constraint questions_failure_reason_check
+    check (failure_reason in ('upstream_unavailable', 'error', 'quota_exceeded'));
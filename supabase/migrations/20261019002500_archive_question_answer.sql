@@ -0,0 +1,61 @@
+-- Archive a question's current answer and clear it for the next version in
+-- one transaction, so a failed or lost update can't leave a history row
+-- behind. Returns the updated question, or nothing when the question is no
+-- longer at p_answer_version (archived by another request meanwhile).
+create or replace function public.archive_question_answer(
+  p_question_id uuid,
+  p_answer_version integer
+)
+returns setof public.questions
+language plpgsql
+as $$
+declare
+  q public.questions;
+begin
+  select * into q
+  from public.questions
+  where id = p_question_id
+    and answer_version = p_answer_version
+  for update;
+
+  if not found then
+    return;
+  end if;
+
+  insert into public.answer_history (
+    question_id,
+    answer_version,
+    answer_text,
+    citations,
+    status,
+    prompt_template,
+    prompt_template_version,
+    answer_reused,
+    answered_at
+  )
+  values (
+    q.id,
+    q.answer_version,
+    q.answer_text,
+    q.citations,
+    q.status,
+    q.prompt_template,
+    q.prompt_template_version,
+    q.answer_reused,
+    q.updated_at
+  );
+
+  return query
+  update public.questions
+  set answer_text = null,
+      citations = null,
+      answer_reused = false,
+      reused_from_question_id = null,
+      prompt_template = null,
+      prompt_template_version = null,
+      answer_version = q.answer_version + 1,
+      updated_at = now()
+  where id = q.id
+  returning *;
+end;
+$$;
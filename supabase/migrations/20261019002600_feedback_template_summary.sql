@@ -0,0 +1,26 @@
+-- Feedback totals per prompt template version, counted in the database so
+-- the summary covers every row rather than the first page PostgREST returns
+create or replace function public.feedback_summary_by_template()
+returns table (
+  prompt_template text,
+  prompt_template_version integer,
+  total bigint,
+  thumbs_up bigint,
+  thumbs_down bigint,
+  spoiled bigint,
+  wrong_answer bigint
+)
+language sql stable
+as $$
+  select
+    f.prompt_template,
+    f.prompt_template_version,
+    count(*),
+    count(*) filter (where f.rating = 1),
+    count(*) filter (where f.rating = -1),
+    count(*) filter (where f.spoiled),
+    count(*) filter (where f.wrong_answer)
+  from public.answer_feedback f
+  group by f.prompt_template, f.prompt_template_version
+  order by f.prompt_template, f.prompt_template_version;
+$$;
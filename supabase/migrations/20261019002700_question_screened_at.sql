@@ -0,0 +1,5 @@
+-- When a question passed screening. Answer retries and regenerations of a
+-- screened question skip it, so the classifier isn't called and charged
+-- again for the same text.
+alter table public.questions
+  add column if not exists screened_at timestamptz;